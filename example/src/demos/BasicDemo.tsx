@@ -1,8 +1,9 @@
-import { useIrlOnboarding, useProfile } from 'irl-browser-onboarding/react'
+import { useAvatar, useIrlOnboarding, useProfile } from 'irl-browser-onboarding/react'
 
 function BasicDemo() {
   const { shouldShowOnboarding, profile, isLoading } = useIrlOnboarding()
   const profileFromHook = useProfile()
+  const avatarUrl = useAvatar(profile?.avatarHash)
 
   // Derive values for display
   const hasApi = !shouldShowOnboarding
@@ -76,10 +77,10 @@ function BasicDemo() {
           <div className="profile-info">
             <p><strong>DID:</strong> <code>{profile.did}</code></p>
             <p><strong>Name:</strong> {profile.name}</p>
-            {profile.avatar && (
+            {avatarUrl && (
               <div>
                 <strong>Avatar:</strong>
-                <img src={profile.avatar} alt="Avatar" style={{ width: 100, height: 100, borderRadius: '50%' }} />
+                <img src={avatarUrl} alt="Avatar" style={{ width: 100, height: 100, borderRadius: '50%' }} />
               </div>
             )}
             {profile.socials && profile.socials.length > 0 && (
@@ -50,7 +50,7 @@ function CoreApiDemo() {
     log(`  Parts: ${jwt.split('.').length} (header.payload.signature)`)
   }
 
-  const testStorage = () => {
+  const testStorage = async () => {
     setOutput('')
     log('=== Testing Storage Module ===')
 
@@ -59,22 +59,21 @@ function CoreApiDemo() {
       did: 'did:key:z6MkTestStorage',
       name: 'Storage Test',
       socials: socialLink ? [socialLink] : [],
-      avatar: null,
     }
 
-    saveProfile(testProfile)
+    await saveProfile(testProfile)
     log('✓ Saved profile to LocalStorage')
 
-    const loaded = getProfile()
+    const loaded = await getProfile()
     log(`✓ Loaded profile: ${loaded?.name}`)
 
-    const privateKey = getPrivateKey()
+    const privateKey = await getPrivateKey()
     log(`✓ Private key exists: ${privateKey ? 'Yes' : 'No'}`)
 
-    clearProfile()
+    await clearProfile()
     log('✓ Cleared storage')
 
-    const afterClear = getProfile()
+    const afterClear = await getProfile()
     log(`✓ After clear: ${afterClear ? 'Profile exists' : 'No profile'}`)
   }
 
@@ -82,7 +81,7 @@ function CoreApiDemo() {
     setOutput('')
     log('=== Testing Profile Module ===')
 
-    clearProfile()
+    await clearProfile()
     log('✓ Cleared existing data')
 
     const socials = [
@@ -172,12 +171,11 @@ function CoreApiDemo() {
       did: keys.did,
       name: 'Mock API Test',
       socials: [],
-      avatar: null,
     }
 
     // Save profile and private key to LocalStorage
-    saveProfile(testProfile)
-    savePrivateKey(keys.privateKey)
+    await saveProfile(testProfile)
+    await savePrivateKey(keys.privateKey)
     log('✓ Saved profile and private key to LocalStorage')
 
     // Inject API (reads from LocalStorage)
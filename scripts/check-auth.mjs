@@ -0,0 +1,63 @@
+/**
+ * Check how the server helpers read the Authorization header
+ * Usage: npm run check:auth
+ * Runs against the built package in dist/
+ */
+
+import { createJWT, generateProfileKeys } from '../dist/index.js'
+import { AuthenticationError, authenticateAuthorizationHeader } from '../dist/server.js'
+
+const AUDIENCE = 'https://example.app'
+
+const report = (line) => process.stdout.write(`${line}\n`)
+
+const { did, privateKey } = await generateProfileKeys()
+const now = Math.floor(Date.now() / 1000)
+const jwt = await createJWT(
+  {
+    iss: did,
+    aud: AUDIENCE,
+    iat: now,
+    exp: now + 120,
+    type: 'irl:profile:details',
+    data: { did, name: 'Alice', socials: [] }
+  },
+  privateKey
+)
+
+// Header value and the error code it should fail with, or null if it should authenticate
+const CASES = [
+  { header: `Bearer ${jwt}`, expected: null },
+  { header: `bearer ${jwt}`, expected: null },
+  { header: `BEARER  ${jwt}`, expected: null },
+  { header: `Bearer\t${jwt}`, expected: null },
+  { header: `Basic ${jwt}`, expected: 'INVALID_AUTHORIZATION' },
+  { header: `Bearer${jwt}`, expected: 'INVALID_AUTHORIZATION' },
+  { header: 'Bearer ', expected: 'MISSING_AUTHORIZATION' },
+  { header: '', expected: 'MISSING_AUTHORIZATION' }
+]
+
+let failed = 0
+
+for (const { header, expected } of CASES) {
+  let code = null
+  try {
+    const user = await authenticateAuthorizationHeader(header, { audience: AUDIENCE })
+    if (user.did !== did) {
+      code = 'WRONG_DID'
+    }
+  } catch (error) {
+    if (!(error instanceof AuthenticationError)) {
+      throw error
+    }
+    code = error.code
+  }
+
+  const passed = code === expected
+  const label = JSON.stringify(header.replace(jwt, '<jwt>'))
+  report(`${passed ? 'ok  ' : 'FAIL'} ${label} - ${expected ?? 'authenticated'}${passed ? '' : `, got ${code ?? 'authenticated'}`}`)
+  failed += passed ? 0 : 1
+}
+
+report(`\n${CASES.length - failed}/${CASES.length} cases passed`)
+process.exitCode = failed === 0 ? 0 : 1
@@ -0,0 +1,112 @@
+/**
+ * Check that the core and React entries share one copy of the library's state
+ * Usage: npm run check:entries
+ * Runs against the built package in dist/, in both the ESM and CommonJS builds
+ */
+
+import { createRequire } from 'node:module'
+
+const require = createRequire(import.meta.url)
+
+// Just enough of a browser window for the mock IRL Browser
+globalThis.window = globalThis
+globalThis.location = { origin: 'https://example.app', href: 'https://example.app/' }
+globalThis.addEventListener = () => {}
+globalThis.removeEventListener = () => {}
+globalThis.document = { visibilityState: 'visible', addEventListener() {}, removeEventListener() {} }
+globalThis.postMessage = () => {}
+// Profile events only need to reach this process; an open BroadcastChannel would keep it running
+delete globalThis.BroadcastChannel
+
+// Keep the output to this script's own results
+console.log = () => {}
+console.warn = () => {}
+console.error = () => {}
+
+const report = (line) => process.stdout.write(`${line}\n`)
+
+const BUILDS = {
+  esm: async () => ({ core: await import('../dist/index.js'), react: await import('../dist/react.js') }),
+  cjs: async () => ({ core: require('../dist/index.cjs'), react: require('../dist/react.cjs') })
+}
+
+const CHECKS = [
+  {
+    description: 'a profile created through the core entry is listed by the React entry',
+    async run({ core, react }) {
+      core.configureStorage(new core.MemoryStorageAdapter())
+      await core.createProfile('Alice')
+      // createProfile() injects window.irlBrowser; later checks inject it through the React entry
+      core.removeIRLBrowserAPI()
+      const profiles = await react.listProfiles()
+      return profiles.map((profile) => profile.name).join() === 'Alice'
+    }
+  },
+  {
+    description: 'the React-injected window.irlBrowser signs for the scope set through the core entry',
+    async run({ core, react }) {
+      core.configureScope('/venue-a')
+      react.injectIRLBrowserAPI()
+      try {
+        const { payload } = core.parseJWT(await window.irlBrowser.getProfileDetails())
+        return payload.aud === 'https://example.app/venue-a'
+      } finally {
+        react.removeIRLBrowserAPI()
+        core.configureScope(null)
+      }
+    }
+  },
+  {
+    description: 'the React-injected window.irlBrowser grants permissions declared through the core entry',
+    async run({ core, react }) {
+      core.configurePermissions({ declared: ['camera'], prompt: async () => true })
+      react.injectIRLBrowserAPI()
+      try {
+        return await window.irlBrowser.requestPermission('camera')
+      } finally {
+        react.removeIRLBrowserAPI()
+        core.configurePermissions({})
+      }
+    }
+  },
+  {
+    description: 'the React-injected window.irlBrowser closes with the behavior set through the core entry',
+    async run({ core, react }) {
+      const closed = new Promise((resolve) => {
+        core.configureClose(() => resolve(true))
+        setTimeout(() => resolve(false), 1000)
+      })
+      react.injectIRLBrowserAPI()
+      try {
+        window.irlBrowser.close()
+        return await closed
+      } finally {
+        react.removeIRLBrowserAPI()
+        core.configureClose('none')
+      }
+    }
+  }
+]
+
+let failed = 0
+
+for (const [build, load] of Object.entries(BUILDS)) {
+  const entries = await load()
+
+  for (const check of CHECKS) {
+    let passed
+    try {
+      passed = await check.run(entries)
+    } catch (error) {
+      passed = false
+      report(`       ${error}`)
+    }
+
+    report(`${passed ? 'ok  ' : 'FAIL'} ${build} - ${check.description}`)
+    failed += passed ? 0 : 1
+  }
+}
+
+const total = Object.keys(BUILDS).length * CHECKS.length
+report(`\n${total - failed}/${total} checks passed`)
+process.exitCode = failed === 0 ? 0 : 1
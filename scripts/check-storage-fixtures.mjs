@@ -0,0 +1,79 @@
+/**
+ * Check that every stored-data fixture upgrades to the current schema or is recovered as documented
+ * Usage: npm run check:storage
+ * Runs against the built package in dist/
+ */
+
+import { readFile, readdir } from 'node:fs/promises'
+import {
+  MemoryStorageAdapter,
+  configureScope,
+  configureStorage,
+  getAvatar,
+  getProfile,
+  hasProfile,
+  listCredentials,
+  listProfiles
+} from '../dist/index.js'
+
+const FIXTURES_DIR = new URL('../fixtures/storage/', import.meta.url)
+
+// Keep the output to this script's own results
+console.log = () => {}
+console.warn = () => {}
+console.error = () => {}
+
+const report = (line) => process.stdout.write(`${line}\n`)
+
+async function checkFixture(fixture) {
+  const adapter = new MemoryStorageAdapter(fixture.entries)
+  configureStorage(adapter)
+  configureScope(fixture.scope ?? null)
+
+  const { expected } = fixture
+  const failures = []
+  const check = (label, actual, wanted) => {
+    if (JSON.stringify(actual) !== JSON.stringify(wanted)) {
+      failures.push(`${label}: expected ${JSON.stringify(wanted)}, got ${JSON.stringify(actual)}`)
+    }
+  }
+
+  const profiles = await listProfiles()
+  check('profiles', profiles.map((profile) => profile.did), expected.profiles)
+  check('active profile', (await getProfile())?.did ?? null, expected.activeProfile)
+  check('hasProfile', await hasProfile(), expected.hasProfile)
+  check('credentials', (await listCredentials()).length, expected.credentials)
+
+  const avatars = await Promise.all(profiles.map((profile) => profile.avatarHash && getAvatar(profile.avatarHash)))
+  check('avatars', avatars.filter(Boolean).length, expected.avatars)
+
+  const namespace = fixture.scope?.separateDid ? `irl-onboarding@${fixture.scope.path}` : 'irl-onboarding'
+  const record = await adapter.get(`${namespace}:profiles`)
+  check('schema version', record === null ? null : JSON.parse(record).schemaVersion, expected.schemaVersion)
+
+  for (const key of expected.removed) {
+    check(`${key} removed`, await adapter.get(key), null)
+  }
+  for (const key of expected.quarantined) {
+    check(`${key} kept`, (await adapter.get(key)) !== null, true)
+  }
+
+  return failures
+}
+
+const names = (await readdir(FIXTURES_DIR)).filter((name) => name.endsWith('.json')).sort()
+let failed = 0
+
+for (const name of names) {
+  const fixture = JSON.parse(await readFile(new URL(name, FIXTURES_DIR), 'utf8'))
+  const failures = await checkFixture(fixture)
+
+  report(`${failures.length === 0 ? 'ok  ' : 'FAIL'} ${name} - ${fixture.description}`)
+  for (const failure of failures) {
+    report(`       ${failure}`)
+  }
+  failed += failures.length === 0 ? 0 : 1
+}
+
+report(`\n${names.length - failed}/${names.length} fixtures passed`)
+process.exitCode = failed === 0 ? 0 : 1
@@ -3,9 +3,279 @@
  * Implements the IRLBrowser interface from the IRL Browser Specification
  */
 
-import type { IRLBrowser, BrowserDetails, JWTPayload } from '../types'
-import { getProfile, getPrivateKey } from './storage'
+import type {
+  IRLBrowser,
+  BrowserDetails,
+  CloseBehavior,
+  IRLBrowserErrorData,
+  IRLBrowserMessage,
+  JWTPayload,
+  JWTSigner,
+  PermissionOptions,
+  SignRequestInput,
+  StoredProfile
+} from '../types'
+import { getAvatar, readActiveProfile } from './storage'
+import { blobToDataURL } from './avatarStore'
 import { createJWT } from './crypto'
+import { getSignerForProfile } from './keystore'
+import { IrlBrowserError, IrlBrowserErrorCode } from './errors'
+import { CREDENTIAL_PRESENTATION_TYPE, listCredentials, verifyCredential } from './credentials'
+import { REQUEST_SIGNATURE_TYPE, getRequestBinding } from './request'
+import { getAudience } from './scope'
+
+/**
+ * `type` of the JWT posted to the mini app when the user leaves it (the WebView is closed)
+ */
+export const PROFILE_DISCONNECTED_TYPE = 'irl:profile:disconnected'
+
+/**
+ * `type` of the JWT posted to the mini app when a `window.irlBrowser` call fails
+ */
+export const IRL_ERROR_TYPE = 'irl:error'
+
+// 'profile' is granted by default, so it never needs declaring
+const DEFAULT_PERMISSIONS = ['profile']
+
+let closeBehavior: CloseBehavior = 'none'
+
+let declaredPermissions: string[] = DEFAULT_PERMISSIONS
+let permissionPrompt: PermissionOptions['prompt'] | null = null
+
+// Set once irl:profile:disconnected is sent, so leaving the page sends it once until it is shown again
+let hasSentDisconnect = false
+
+/**
+ * Load the active profile and a signer for its key
+ * @throws IrlBrowserError PROFILE_NOT_FOUND, STORAGE_FAILED or SIGNING_FAILED
+ */
+async function requireProfile(): Promise<{ profile: StoredProfile; signer: JWTSigner }> {
+  let profile: StoredProfile | null
+  try {
+    profile = await readActiveProfile()
+  } catch (error) {
+    console.error('Failed to read profile:', error)
+    throw new IrlBrowserError(IrlBrowserErrorCode.STORAGE_FAILED, 'Profile storage could not be read')
+  }
+
+  if (!profile) {
+    throw new IrlBrowserError(
+      IrlBrowserErrorCode.PROFILE_NOT_FOUND,
+      'No profile found. User must create a profile first.'
+    )
+  }
+
+  let signer: JWTSigner | null
+  try {
+    signer = await getSignerForProfile(profile)
+  } catch (error) {
+    console.error('Failed to load signing key:', error)
+    signer = null
+  }
+
+  if (!signer) {
+    throw new IrlBrowserError(IrlBrowserErrorCode.SIGNING_FAILED, 'No usable signing key for the current profile')
+  }
+
+  return { profile, signer }
+}
+
+/**
+ * Sign a JWT with the profile's key
+ * @throws IrlBrowserError SIGNING_FAILED
+ */
+async function signPayload(payload: JWTPayload, signer: JWTSigner): Promise<string> {
+  try {
+    return await createJWT(payload, signer)
+  } catch (error) {
+    console.error('Failed to sign JWT:', error)
+    throw new IrlBrowserError(IrlBrowserErrorCode.SIGNING_FAILED, `Failed to sign ${payload.type ?? 'JWT'}`)
+  }
+}
+
+/**
+ * Sign an `irl:error` event with the profile's key
+ * @returns The JWT, or null if there is no profile key that can sign (e.g. PROFILE_NOT_FOUND)
+ */
+async function signError(data: IRLBrowserErrorData): Promise<string | null> {
+  const profileSigner = await requireProfile().catch(() => null)
+  if (!profileSigner) {
+    return null
+  }
+  const { profile, signer } = profileSigner
+
+  // Create JWT payload
+  const now = Math.floor(Date.now() / 1000)
+  const payload: JWTPayload = {
+    iss: profile.did,
+    aud: getAudience(),
+    iat: now,
+    exp: now + 120, // 2 minutes expiration
+    type: IRL_ERROR_TYPE,
+    data
+  }
+
+  try {
+    return await createJWT(payload, signer)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Post an `irl:error` event to the mini app's window
+ * Signed by the profile when it can be; otherwise posted unsigned, since no key speaks for the user
+ */
+async function postError(error: IrlBrowserError): Promise<void> {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  try {
+    const data: IRLBrowserErrorData = { code: error.code, message: error.message }
+    const jwt = await signError(data)
+    const message: IRLBrowserMessage = jwt ? { jwt } : { type: IRL_ERROR_TYPE, data }
+    window.postMessage(message, window.location.origin)
+  } catch (postError) {
+    console.error('Failed to send error event:', postError)
+  }
+}
+
+/**
+ * Run a `window.irlBrowser` call; an IrlBrowserError it throws is also posted as an `irl:error` event
+ */
+async function withErrorEvents<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call()
+  } catch (error) {
+    if (error instanceof IrlBrowserError) {
+      await postError(error)
+    }
+    throw error
+  }
+}
+
+/**
+ * Sign the current profile's details as a JWT of the given type
+ * @throws IrlBrowserError if there is no profile or it cannot sign
+ */
+async function signProfileDetails(type: string): Promise<string> {
+  const { profile, signer } = await requireProfile()
+
+  // Create JWT payload
+  const now = Math.floor(Date.now() / 1000)
+  const payload: JWTPayload = {
+    iss: profile.did,
+    aud: getAudience(),
+    iat: now,
+    exp: now + 120, // 2 minutes expiration
+    type,
+    data: {
+      did: profile.did,
+      name: profile.name,
+      socials: profile.socials || []
+    }
+  }
+
+  // Sign and return JWT
+  return signPayload(payload, signer)
+}
+
+/**
+ * Post a signed `irl:profile:disconnected` event to the mini app's window, as an IRL Browser does
+ * when the user closes the WebView
+ */
+async function postProfileDisconnected(): Promise<void> {
+  if (hasSentDisconnect) {
+    return
+  }
+  hasSentDisconnect = true
+
+  try {
+    const message: IRLBrowserMessage = { jwt: await signProfileDetails(PROFILE_DISCONNECTED_TYPE) }
+    window.postMessage(message, window.location.origin)
+    console.log('Profile disconnected event sent')
+  } catch (error) {
+    // Without a profile there is nobody to disconnect
+    if (error instanceof IrlBrowserError && error.code === IrlBrowserErrorCode.PROFILE_NOT_FOUND) {
+      return
+    }
+
+    hasSentDisconnect = false
+    console.error('Failed to send profile disconnected event:', error)
+    if (error instanceof IrlBrowserError) {
+      await postError(error)
+    }
+  }
+}
+
+/**
+ * Leaving the page stands in for closing the WebView
+ * Delivery on pagehide is best effort: the page may unload before the message is handled
+ */
+function handlePageHide(): void {
+  postProfileDisconnected()
+}
+
+function handleVisibilityChange(): void {
+  if (document.visibilityState === 'hidden') {
+    postProfileDisconnected()
+  } else {
+    // The user came back, so the next time they leave is a new disconnect
+    hasSentDisconnect = false
+  }
+}
+
+/**
+ * Select what `window.irlBrowser.close()` does after sending `irl:profile:disconnected`
+ * A web page cannot close its own tab, so by default close() only sends the event
+ *
+ * @param behavior - 'none', 'back', { navigate: url } or your own handler
+ */
+export function configureClose(behavior: CloseBehavior): void {
+  closeBehavior = behavior
+}
+
+/**
+ * Select how `window.irlBrowser.requestPermission()` handles permissions other than 'profile'
+ * Undeclared permissions are rejected; declared ones are granted if the user agrees to the prompt
+ *
+ * @param options - Permissions declared in the mini app's manifest and the consent prompt
+ */
+export function configurePermissions(options: PermissionOptions): void {
+  declaredPermissions = options.declared ?? DEFAULT_PERMISSIONS
+  permissionPrompt = options.prompt ?? null
+}
+
+/**
+ * Ask the user for a permission with the configured prompt, or window.confirm()
+ * @returns Whether the user granted it; a failing prompt counts as denied
+ */
+async function promptForPermission(permission: string): Promise<boolean> {
+  try {
+    if (permissionPrompt) {
+      return await permissionPrompt(permission)
+    }
+    return typeof window.confirm === 'function' && window.confirm(`Allow this app to use "${permission}"?`)
+  } catch (error) {
+    console.error('Permission prompt failed:', error)
+    return false
+  }
+}
+
+function runCloseBehavior(): void {
+  try {
+    if (typeof closeBehavior === 'function') {
+      closeBehavior()
+    } else if (closeBehavior === 'back') {
+      window.history.back()
+    } else if (closeBehavior !== 'none') {
+      window.location.assign(closeBehavior.navigate)
+    }
+  } catch (error) {
+    console.error('Close handler failed:', error)
+  }
+}
 
 /**
  * Implementation of the IRL Browser API
@@ -15,103 +285,214 @@ export class MockIRLBrowser implements IRLBrowser {
 
   /**
    * Get profile details as a signed JWT
+   * @throws IrlBrowserError if there is no profile or it cannot sign
    */
   async getProfileDetails(): Promise<string> {
-    const profile = getProfile()
-    const privateKey = getPrivateKey()
+    return withErrorEvents(() => signProfileDetails('irl:profile:details'))
+  }
 
-    if (!profile || !privateKey) {
-      throw new Error('No profile found. User must create a profile first.')
-    }
+  /**
+   * Get avatar as base64-encoded string in a signed JWT
+   * @throws IrlBrowserError if there is no profile or it cannot sign
+   */
+  async getAvatar(): Promise<string | null> {
+    return withErrorEvents(async () => {
+      const { profile, signer } = await requireProfile()
 
-    // Create JWT payload
-    const now = Math.floor(Date.now() / 1000)
-    const payload: JWTPayload = {
-      iss: profile.did,
-      aud: window.location.origin,
-      iat: now,
-      exp: now + 120, // 2 minutes expiration
-      type: 'irl:profile:details',
-      data: {
-        did: profile.did,
-        name: profile.name,
-        socials: profile.socials || []
+      // Return null if no avatar; the image is only read from storage when asked for
+      const avatar = profile.avatarHash ? await getAvatar(profile.avatarHash) : null
+      if (!avatar) {
+        return null
       }
-    }
 
-    // Sign and return JWT
-    return createJWT(payload, privateKey)
+      // Create JWT payload
+      const now = Math.floor(Date.now() / 1000)
+      const payload: JWTPayload = {
+        iss: profile.did,
+        aud: getAudience(),
+        iat: now,
+        exp: now + 120, // 2 minutes expiration
+        type: 'irl:avatar',
+        data: {
+          did: profile.did,
+          avatar: await blobToDataURL(avatar)
+        }
+      }
+
+      // Sign and return JWT
+      return signPayload(payload, signer)
+    })
   }
 
   /**
-   * Get avatar as base64-encoded string in a signed JWT
+   * Sign a server-issued challenge nonce to prove possession of the DID's key
+   * @param nonce - The nonce issued by the mini app's backend
+   * @param context - Optional description of the action being authorized (e.g. 'vote:42')
+   * @throws IrlBrowserError if there is no profile, it cannot sign or the nonce is missing
    */
-  async getAvatar(): Promise<string | null> {
-    const profile = getProfile()
-    const privateKey = getPrivateKey()
+  async signChallenge(nonce: string, context?: string): Promise<string> {
+    return withErrorEvents(async () => {
+      const { profile, signer } = await requireProfile()
 
-    if (!profile || !privateKey) {
-      throw new Error('No profile found. User must create a profile first.')
-    }
+      if (!nonce) {
+        throw new IrlBrowserError(IrlBrowserErrorCode.INVALID_REQUEST, 'A challenge nonce is required')
+      }
 
-    // Return null if no avatar
-    if (!profile.avatar) {
-      return null
-    }
+      // Create JWT payload
+      const now = Math.floor(Date.now() / 1000)
+      const payload: JWTPayload = {
+        iss: profile.did,
+        aud: getAudience(),
+        iat: now,
+        exp: now + 120, // 2 minutes expiration
+        type: 'irl:auth:challenge',
+        data: {
+          did: profile.did,
+          nonce,
+          ...(context !== undefined && { context })
+        }
+      }
+
+      // Sign and return JWT
+      return signPayload(payload, signer)
+    })
+  }
+
+  /**
+   * Sign an HTTP request so the backend can check the body was not swapped in transit
+   * Send the returned JWT in the IRL-Signature header alongside the request
+   * @param request - Method, URL (absolute or relative to this page) and body
+   * @throws IrlBrowserError if there is no profile, it cannot sign or the request is incomplete
+   */
+  async signRequest(request: SignRequestInput): Promise<string> {
+    return withErrorEvents(async () => {
+      const { profile, signer } = await requireProfile()
 
-    // Create JWT payload
-    const now = Math.floor(Date.now() / 1000)
-    const payload: JWTPayload = {
-      iss: profile.did,
-      aud: window.location.origin,
-      iat: now,
-      exp: now + 120, // 2 minutes expiration
-      type: 'irl:avatar',
-      data: {
-        did: profile.did,
-        avatar: profile.avatar
+      if (!request || !request.method || !request.url) {
+        throw new IrlBrowserError(IrlBrowserErrorCode.INVALID_REQUEST, 'A request method and URL are required')
+      }
+
+      let binding: ReturnType<typeof getRequestBinding>
+      try {
+        binding = getRequestBinding(request, window.location.href)
+      } catch {
+        throw new IrlBrowserError(IrlBrowserErrorCode.INVALID_REQUEST, `Invalid request URL: ${request.url}`)
+      }
+
+      // Create JWT payload
+      const now = Math.floor(Date.now() / 1000)
+      const payload: JWTPayload = {
+        iss: profile.did,
+        aud: getAudience(),
+        iat: now,
+        exp: now + 120, // 2 minutes expiration
+        type: REQUEST_SIGNATURE_TYPE,
+        data: {
+          did: profile.did,
+          ...binding
+        }
       }
-    }
 
-    // Sign and return JWT
-    return createJWT(payload, privateKey)
+      // Sign and return JWT
+      return signPayload(payload, signer)
+    })
+  }
+
+  /**
+   * Present held credentials of a type as a signed JWT
+   * Only credentials that still verify are included
+   * @param type - Credential type requested by the mini app (e.g. 'EventAttendanceCredential')
+   * @throws IrlBrowserError if there is no profile or it cannot sign
+   */
+  async presentCredential(type: string): Promise<string | null> {
+    return withErrorEvents(async () => {
+      const { profile, signer } = await requireProfile()
+
+      const credentials: string[] = []
+      for (const { jwt } of await listCredentials({ type })) {
+        try {
+          await verifyCredential(jwt, { type, subject: profile.did })
+          credentials.push(jwt)
+        } catch (error) {
+          console.warn('Skipping invalid held credential:', error)
+        }
+      }
+
+      if (credentials.length === 0) {
+        return null
+      }
+
+      // Create JWT payload
+      const now = Math.floor(Date.now() / 1000)
+      const payload: JWTPayload = {
+        iss: profile.did,
+        aud: getAudience(),
+        iat: now,
+        exp: now + 120, // 2 minutes expiration
+        type: CREDENTIAL_PRESENTATION_TYPE,
+        data: {
+          did: profile.did,
+          credentials
+        }
+      }
+
+      // Sign and return JWT
+      return signPayload(payload, signer)
+    })
   }
 
   /**
    * Get details about the IRL Browser
+   * The mock can grant any permission the manifest declares (see configurePermissions()), so those are listed too
    */
   getBrowserDetails(): BrowserDetails {
     return {
       name: 'IRL Browser Onboarding',
       version: '1.0.0',
       platform: 'browser',
-      supportedPermissions: ['profile']
+      supportedPermissions: [...new Set([...DEFAULT_PERMISSIONS, ...declaredPermissions])]
     }
   }
 
   /**
-   * Request additional permissions (future use)
-   * For v1, only 'profile' permission is supported and auto-granted
+   * Request an additional permission
+   * 'profile' is granted by default. Other permissions must be declared in the manifest (see
+   * configurePermissions()) and are then granted if the user agrees to the prompt.
+   * @returns true once granted
+   * @throws IrlBrowserError PERMISSION_NOT_DECLARED or PERMISSION_DENIED
    */
   async requestPermission(permission: string): Promise<boolean> {
-    // Only profile permission is supported in v1
-    if (permission === 'profile') {
-      return true
-    }
+    return withErrorEvents(async () => {
+      if (DEFAULT_PERMISSIONS.includes(permission)) {
+        return true
+      }
 
-    // For future permissions, show browser confirm dialog
-    console.warn(`Permission "${permission}" is not yet supported`)
-    return false
+      if (!declaredPermissions.includes(permission)) {
+        throw new IrlBrowserError(
+          IrlBrowserErrorCode.PERMISSION_NOT_DECLARED,
+          `Permission "${permission}" is not declared in the mini app's manifest`
+        )
+      }
+
+      if (!(await promptForPermission(permission))) {
+        throw new IrlBrowserError(IrlBrowserErrorCode.PERMISSION_DENIED, `The user denied the "${permission}" permission`)
+      }
+
+      return true
+    })
   }
 
   /**
-   * Close the WebView (no-op for web version)
-   * In a real IRL Browser app, this would close the WebView and return to QR scanner
+   * Close the mini app
+   * In a real IRL Browser app, this closes the WebView and returns to the QR scanner. A web page
+   * cannot close itself, so this sends `irl:profile:disconnected` and then does what was selected
+   * with configureClose() (nothing by default)
    */
   close(): void {
-    console.log('close() called - no-op in web version')
-    // In web version, this is a no-op
-    // Developers can override this behavior if needed
+    postProfileDisconnected().finally(() => {
+      // Let the mini app's message listener run before navigating away
+      setTimeout(runCloseBehavior, 0)
+    })
   }
 }
 
@@ -133,6 +514,11 @@ export function injectIRLBrowserAPI(): void {
   const api = new MockIRLBrowser()
   ;(window as any).irlBrowser = api
 
+  // Send irl:profile:disconnected when the user leaves the page
+  hasSentDisconnect = false
+  window.addEventListener('pagehide', handlePageHide)
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
   console.log('IRL Browser API injected successfully')
 }
 
@@ -145,6 +531,8 @@ export function removeIRLBrowserAPI(): void {
   }
 
   delete (window as any).irlBrowser
+  window.removeEventListener('pagehide', handlePageHide)
+  document.removeEventListener('visibilitychange', handleVisibilityChange)
   console.log('IRL Browser API removed')
 }
 
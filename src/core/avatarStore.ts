@@ -0,0 +1,117 @@
+/**
+ * Avatar storage
+ * Avatars are kept out of the profile record, as Blobs in IndexedDB keyed by the SHA-256 of their bytes,
+ * so reading a profile never parses image data and a shared image is stored once per identity namespace.
+ * Each namespace keeps its own copy, so removing a profile never deletes an image another namespace uses
+ */
+
+import * as base64 from 'base64-js'
+import { hash as sha256 } from '@stablelib/sha256'
+import type { StorageAdapter } from '../types'
+import { idbDelete, idbGet, idbSet, isIndexedDBAvailable } from './idb'
+import { IndexedDBStorageAdapter, LocalStorageAdapter } from './storageAdapters'
+
+// Namespace of the origin's profiles; its avatars keep the keys they had before avatars were namespaced
+const ORIGIN_NAMESPACE = 'irl-onboarding'
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s
+const HASH_PATTERN = /^[0-9a-f]{64}$/
+
+/**
+ * Decode a data URL (e.g. from processImageFile()) into a Blob
+ * @throws Error if the value is not a data URL
+ */
+export function dataURLToBlob(dataUrl: string): Blob {
+  const match = DATA_URL_PATTERN.exec(dataUrl)
+  if (!match) {
+    throw new Error('Avatar must be a data URL')
+  }
+
+  const [, mimeType, , isBase64, data] = match
+  const bytes = isBase64 ? base64.toByteArray(data) : new TextEncoder().encode(decodeURIComponent(data))
+
+  return new Blob([bytes as BlobPart], { type: mimeType || 'application/octet-stream' })
+}
+
+/**
+ * Encode a Blob as a base64 data URL
+ */
+export async function blobToDataURL(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  return `data:${blob.type || 'application/octet-stream'};base64,${base64.fromByteArray(bytes)}`
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Check if avatars saved through this adapter go to IndexedDB
+ * Session, memory and custom adapters keep them in the adapter, so they live exactly as long as the profile
+ */
+function storesAvatarsInIndexedDB(adapter: StorageAdapter): boolean {
+  return (
+    isIndexedDBAvailable() &&
+    (adapter instanceof LocalStorageAdapter || adapter instanceof IndexedDBStorageAdapter)
+  )
+}
+
+/**
+ * Key of an avatar in the storage adapter (e.g. `irl-onboarding@/venue-b:avatar:<hash>`)
+ */
+function adapterKey(namespace: string, avatarHash: string): string {
+  return `${namespace}:avatar:${avatarHash}`
+}
+
+/**
+ * Key of an avatar in the IndexedDB 'avatars' store; the origin's avatars are keyed by hash alone
+ */
+function indexedDBKey(namespace: string, avatarHash: string): string {
+  return namespace === ORIGIN_NAMESPACE ? avatarHash : adapterKey(namespace, avatarHash)
+}
+
+/**
+ * Store an avatar under the hash of its bytes
+ *
+ * @param namespace - Identity namespace of the profile that references it, e.g. 'irl-onboarding@/venue-b'
+ * @returns The hash (64 hex characters), referenced from the profile as `avatarHash`
+ */
+export async function putAvatar(adapter: StorageAdapter, namespace: string, blob: Blob): Promise<string> {
+  const avatarHash = toHex(sha256(new Uint8Array(await blob.arrayBuffer())))
+
+  if (storesAvatarsInIndexedDB(adapter)) {
+    await idbSet('avatars', indexedDBKey(namespace, avatarHash), blob)
+  } else {
+    await adapter.set(adapterKey(namespace, avatarHash), await blobToDataURL(blob))
+  }
+
+  return avatarHash
+}
+
+/**
+ * Read a stored avatar
+ * @returns The image, or null if nothing is stored under this hash
+ */
+export async function readAvatar(adapter: StorageAdapter, namespace: string, avatarHash: string): Promise<Blob | null> {
+  if (!HASH_PATTERN.test(avatarHash)) {
+    return null
+  }
+
+  if (storesAvatarsInIndexedDB(adapter)) {
+    return idbGet<Blob>('avatars', indexedDBKey(namespace, avatarHash))
+  }
+
+  const dataUrl = await adapter.get(adapterKey(namespace, avatarHash))
+  return dataUrl ? dataURLToBlob(dataUrl) : null
+}
+
+/**
+ * Remove a stored avatar
+ */
+export async function deleteAvatar(adapter: StorageAdapter, namespace: string, avatarHash: string): Promise<void> {
+  if (storesAvatarsInIndexedDB(adapter)) {
+    await idbDelete('avatars', indexedDBKey(namespace, avatarHash))
+  } else {
+    await adapter.remove(adapterKey(namespace, avatarHash))
+  }
+}
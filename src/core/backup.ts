@@ -0,0 +1,311 @@
+/**
+ * Passphrase-encrypted profile backup and restore
+ * PBKDF2-SHA256 derives an AES-256-GCM key from the passphrase (WebCrypto)
+ */
+
+import * as ed25519 from '@stablelib/ed25519'
+import * as base64 from 'base64-js'
+import type { Profile, ProfileBackup } from '../types'
+import { base64url } from '../utils/encoding'
+import { generateRandomBytes } from './crypto'
+import { createDidFromPublicKey } from './did'
+import { BackupError } from './errors'
+import { discardAvatar, getAvatar, getPrivateKey, getProfile, saveAvatar, savePrivateKey, saveProfile } from './storage'
+import { blobToDataURL } from './avatarStore'
+import { injectIRLBrowserAPI } from './api'
+
+const BACKUP_FORMAT = 'irl-onboarding-backup'
+const BACKUP_VERSION = 1
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000
+// Iteration counts are read from the backup file, so cap them to keep a crafted file from stalling the tab.
+// The cap leaves headroom for backups written with a stronger count than PBKDF2_ITERATIONS
+const MAX_PBKDF2_ITERATIONS = 10000000
+const SALT_SIZE = 16
+const IV_SIZE = 12
+
+// The avatar stays inline as a data URL, so backups are self-contained
+interface BackupPlaintext {
+  profile: Pick<Profile, 'did' | 'name' | 'socials' | 'avatar'>
+  privateKey: string
+}
+
+/**
+ * Get WebCrypto's SubtleCrypto or fail with a typed error
+ */
+function getSubtleCrypto(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new BackupError('BACKUP_UNSUPPORTED_RUNTIME', 'WebCrypto is required for profile backups')
+  }
+  return crypto.subtle
+}
+
+/**
+ * Derive the AES-GCM key from a passphrase
+ */
+async function deriveBackupKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+  usage: KeyUsage
+): Promise<CryptoKey> {
+  const subtle = getSubtleCrypto()
+
+  const passphraseKey = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    passphraseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  )
+}
+
+/**
+ * Additional authenticated data binding the ciphertext to its unencrypted fields
+ */
+function getAdditionalData(did: string): Uint8Array {
+  return new TextEncoder().encode(`${BACKUP_FORMAT}:${BACKUP_VERSION}:${did}`)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Check that a backup object has every field of a version 1 backup
+ */
+function isProfileBackup(backup: Record<string, unknown>): backup is Record<string, unknown> & ProfileBackup {
+  const { kdf, cipher } = backup
+  return (
+    typeof backup.did === 'string' &&
+    typeof backup.ciphertext === 'string' &&
+    isRecord(kdf) &&
+    kdf.name === 'PBKDF2' &&
+    kdf.hash === 'SHA-256' &&
+    Number.isInteger(kdf.iterations) &&
+    typeof kdf.salt === 'string' &&
+    isRecord(cipher) &&
+    cipher.name === 'AES-GCM' &&
+    typeof cipher.iv === 'string'
+  )
+}
+
+/**
+ * Check that an unknown value has the shape of a version 1 backup
+ */
+function parseBackup(input: string | ProfileBackup): ProfileBackup {
+  let backup: unknown = input
+  if (typeof input === 'string') {
+    try {
+      backup = JSON.parse(input)
+    } catch {
+      throw new BackupError('BACKUP_INVALID_FORMAT', 'Backup is not valid JSON')
+    }
+  }
+
+  if (!isRecord(backup) || backup.format !== BACKUP_FORMAT) {
+    throw new BackupError('BACKUP_INVALID_FORMAT', 'Not an IRL onboarding profile backup')
+  }
+
+  if (backup.version !== BACKUP_VERSION) {
+    throw new BackupError('BACKUP_UNSUPPORTED_VERSION', `Unsupported backup version: ${backup.version}`)
+  }
+
+  if (!isProfileBackup(backup)) {
+    throw new BackupError('BACKUP_INVALID_FORMAT', 'Backup is missing required fields')
+  }
+
+  if (backup.kdf.iterations < 1 || backup.kdf.iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new BackupError(
+      'BACKUP_INVALID_FORMAT',
+      `Backup PBKDF2 iterations must be between 1 and ${MAX_PBKDF2_ITERATIONS}, got ${backup.kdf.iterations}`
+    )
+  }
+
+  return backup
+}
+
+/**
+ * Export the current profile and its private key as an encrypted backup
+ *
+ * @param passphrase - Passphrase used to encrypt the backup
+ * @returns The backup as a JSON string (save it as a .json file)
+ * @throws BackupError if there is no profile or its key cannot be exported
+ */
+export async function exportProfileBackup(passphrase: string): Promise<string> {
+  if (!passphrase) {
+    throw new BackupError('BACKUP_INVALID_PASSPHRASE', 'A passphrase is required')
+  }
+
+  const profile = await getProfile()
+  if (!profile) {
+    throw new BackupError('BACKUP_NO_PROFILE', 'No profile exists to back up')
+  }
+
+  if (profile.keyBackend === 'webcrypto') {
+    throw new BackupError(
+      'BACKUP_KEY_NOT_EXPORTABLE',
+      'This profile uses a non-extractable WebCrypto key and cannot be backed up'
+    )
+  }
+
+  const privateKey = await getPrivateKey(profile.did)
+  if (!privateKey) {
+    throw new BackupError('BACKUP_NO_PROFILE', 'No private key exists to back up')
+  }
+
+  const avatar = profile.avatarHash ? await getAvatar(profile.avatarHash) : null
+
+  const plaintext: BackupPlaintext = {
+    profile: {
+      did: profile.did,
+      name: profile.name,
+      socials: profile.socials,
+      avatar: avatar ? await blobToDataURL(avatar) : null
+    },
+    privateKey
+  }
+
+  const salt = generateRandomBytes(SALT_SIZE)
+  const iv = generateRandomBytes(IV_SIZE)
+  const key = await deriveBackupKey(passphrase, salt, PBKDF2_ITERATIONS, 'encrypt')
+
+  const ciphertext = await getSubtleCrypto().encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource, additionalData: getAdditionalData(profile.did) as BufferSource },
+    key,
+    new TextEncoder().encode(JSON.stringify(plaintext))
+  )
+
+  const backup: ProfileBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    did: profile.did,
+    createdAt: new Date().toISOString(),
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: base64url.encode(salt)
+    },
+    cipher: {
+      name: 'AES-GCM',
+      iv: base64url.encode(iv)
+    },
+    ciphertext: base64url.encode(new Uint8Array(ciphertext))
+  }
+
+  return JSON.stringify(backup, null, 2)
+}
+
+/**
+ * Decrypt a backup and restore it as the current profile
+ * Adds the profile to this device (replacing one with the same DID), makes it active and keeps the backed-up DID
+ *
+ * @param blob - The backup JSON string (or parsed object)
+ * @param passphrase - Passphrase the backup was encrypted with
+ * @returns The restored profile
+ * @throws BackupError if the backup is invalid or the passphrase is wrong
+ */
+export async function importProfileBackup(
+  blob: string | ProfileBackup,
+  passphrase: string
+): Promise<Profile> {
+  const backup = parseBackup(blob)
+
+  let plaintextBytes: ArrayBuffer
+  try {
+    const key = await deriveBackupKey(
+      passphrase,
+      base64url.decode(backup.kdf.salt),
+      backup.kdf.iterations,
+      'decrypt'
+    )
+
+    plaintextBytes = await getSubtleCrypto().decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64url.decode(backup.cipher.iv) as BufferSource,
+        additionalData: getAdditionalData(backup.did) as BufferSource
+      },
+      key,
+      base64url.decode(backup.ciphertext) as BufferSource
+    )
+  } catch (error) {
+    if (error instanceof BackupError) {
+      throw error
+    }
+    // AES-GCM cannot tell a wrong passphrase from tampering
+    throw new BackupError('BACKUP_DECRYPTION_FAILED', 'Wrong passphrase or corrupted backup')
+  }
+
+  let plaintext: BackupPlaintext
+  try {
+    plaintext = JSON.parse(new TextDecoder().decode(plaintextBytes)) as BackupPlaintext
+  } catch {
+    throw new BackupError('BACKUP_INVALID_FORMAT', 'Backup contents are not valid JSON')
+  }
+
+  const { profile, privateKey } = plaintext
+  if (!profile || typeof profile.name !== 'string' || typeof privateKey !== 'string') {
+    throw new BackupError('BACKUP_INVALID_FORMAT', 'Backup contents are missing the profile or key')
+  }
+
+  // The key must belong to the DID being restored. The public key is derived from the seed half,
+  // since the copy stored after it could be swapped for the right one without fixing a wrong seed
+  let secretKey: Uint8Array
+  try {
+    secretKey = base64.toByteArray(privateKey)
+  } catch {
+    secretKey = new Uint8Array(0)
+  }
+
+  if (secretKey.length !== ed25519.SECRET_KEY_LENGTH) {
+    throw new BackupError('BACKUP_KEY_MISMATCH', 'Backup contains an invalid private key')
+  }
+
+  const keyPair = ed25519.generateKeyPairFromSeed(secretKey.subarray(0, 32))
+  if (createDidFromPublicKey(keyPair.publicKey) !== backup.did || profile.did !== backup.did) {
+    throw new BackupError('BACKUP_KEY_MISMATCH', 'Backup private key does not match its DID')
+  }
+
+  const avatarHash = profile.avatar ? await saveAvatar(profile.avatar) : undefined
+
+  try {
+    // Key first, like createProfile(), so the profile is never stored without it
+    // Saved as rebuilt from the seed, so a tampered public key half is never stored
+    await savePrivateKey(base64.fromByteArray(keyPair.secretKey), profile.did)
+    await saveProfile({
+      did: profile.did,
+      name: profile.name,
+      socials: profile.socials,
+      avatarHash,
+      keyBackend: 'local'
+    })
+  } catch (error) {
+    if (avatarHash) {
+      await discardAvatar(avatarHash)
+    }
+    throw error
+  }
+
+  // Inject IRL Browser API
+  injectIRLBrowserAPI()
+
+  console.log('Profile restored from backup:', { did: profile.did })
+
+  return {
+    did: profile.did,
+    name: profile.name,
+    socials: profile.socials,
+    ...(avatarHash && { avatarHash })
+  }
+}
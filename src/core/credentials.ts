@@ -0,0 +1,332 @@
+/**
+ * W3C Verifiable Credentials (Data Model 2.0) secured as VC-JWTs
+ * The JWT payload is the credential itself, signed by the issuer's did:key with `typ: vc+jwt`
+ */
+
+import type {
+  CredentialJWTPayload,
+  HeldCredential,
+  IssueCredentialOptions,
+  IssuedCredential,
+  JWTSigner,
+  VerifiableCredential,
+  VerifiedCredential,
+  VerifiedCredentialPresentation,
+  VerifyCredentialOptions,
+  VerifyCredentialPresentationOptions
+} from '../types'
+import { createJWT, decodeJWT, verifyAndDecodeJWT, verifyParsedJWT } from './crypto'
+import { formatVerificationMethodId, getPublicKeyFromDid } from './did'
+import { CredentialError, JWTVerificationError } from './errors'
+import { parseJWT } from './jwtParser'
+import { getProfileSigner } from './keystore'
+import { getCredentials, getProfile, saveCredentials } from './storage'
+
+/**
+ * Base context of every Data Model 2.0 credential
+ */
+export const CREDENTIALS_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2'
+
+/**
+ * JWT `type` of credential presentations sent by the IRL Browser
+ */
+export const CREDENTIAL_PRESENTATION_TYPE = 'irl:credential:presentation'
+
+const DEFAULT_CLOCK_TOLERANCE = 30 // seconds
+
+// Registered claims every VC-JWT from issueCredential() carries
+const REQUIRED_CLAIMS = ['iss', 'sub', 'iat', 'nbf']
+
+/**
+ * Convert a Date to seconds since epoch
+ */
+function toNumericDate(date: Date): number {
+  return Math.floor(date.getTime() / 1000)
+}
+
+/**
+ * Convert an ISO 8601 date-time to seconds since epoch (NaN if invalid)
+ */
+function parseDateTime(value: string): number {
+  return Math.floor(Date.parse(value) / 1000)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Check that a decoded payload has the shape of a Data Model 2.0 credential
+ */
+function isCredentialPayload(payload: unknown): payload is CredentialJWTPayload {
+  if (!isRecord(payload)) {
+    return false
+  }
+
+  const { '@context': context, type, validFrom, validUntil, credentialSubject } = payload
+  return (
+    Array.isArray(context) &&
+    context[0] === CREDENTIALS_V2_CONTEXT &&
+    Array.isArray(type) &&
+    type[0] === 'VerifiableCredential' &&
+    type.every((entry) => typeof entry === 'string') &&
+    typeof payload.issuer === 'string' &&
+    typeof validFrom === 'string' &&
+    !Number.isNaN(parseDateTime(validFrom)) &&
+    (validUntil === undefined || (typeof validUntil === 'string' && !Number.isNaN(parseDateTime(validUntil)))) &&
+    isRecord(credentialSubject) &&
+    typeof credentialSubject.id === 'string'
+  )
+}
+
+/**
+ * Strip the registered JWT claims from a VC-JWT payload
+ */
+function toCredential(payload: CredentialJWTPayload): VerifiableCredential {
+  const { iss, sub, iat, nbf, exp, jti, ...credential } = payload
+  return credential
+}
+
+/**
+ * Issue a verifiable credential as a VC-JWT
+ * Signs with the current profile unless another issuer key is given
+ *
+ * @param options - Credential type, subject, claims and validity period
+ * @returns The signed VC-JWT and the credential it contains
+ * @throws CredentialError if there is no issuer key
+ */
+export async function issueCredential(options: IssueCredentialOptions): Promise<IssuedCredential> {
+  const { subject, claims = {}, id, validFrom = new Date(), validUntil } = options
+
+  let issuerDid: string
+  let signer: string | JWTSigner
+  if (options.issuer) {
+    issuerDid = options.issuer.did
+    signer = options.issuer.privateKey
+  } else {
+    const profile = await getProfile()
+    const profileSigner = await getProfileSigner()
+
+    if (!profile || !profileSigner) {
+      throw new CredentialError('CREDENTIAL_NO_PROFILE', 'No profile found. User must create a profile first.')
+    }
+
+    issuerDid = profile.did
+    signer = profileSigner
+  }
+
+  const credential: VerifiableCredential = {
+    '@context': [CREDENTIALS_V2_CONTEXT],
+    ...(id && { id }),
+    type: ['VerifiableCredential', ...(Array.isArray(options.type) ? options.type : [options.type])],
+    issuer: issuerDid,
+    validFrom: validFrom.toISOString(),
+    ...(validUntil && { validUntil: validUntil.toISOString() }),
+    credentialSubject: {
+      ...claims,
+      id: subject
+    }
+  }
+
+  const payload: CredentialJWTPayload = {
+    ...credential,
+    iss: issuerDid,
+    sub: subject,
+    iat: Math.floor(Date.now() / 1000),
+    nbf: toNumericDate(validFrom),
+    ...(validUntil && { exp: toNumericDate(validUntil) })
+  }
+
+  const jwt = await createJWT(payload, signer, { typ: 'vc+jwt' })
+
+  return { jwt, credential }
+}
+
+/**
+ * Verify a VC-JWT against its issuer DID
+ * Checks the signature, the credential shape, `nbf`/`exp` against `validFrom`/`validUntil`, the validity period
+ * (with clock skew) and the optional constraints
+ *
+ * @param jwt - The VC-JWT
+ * @param options - Required type, trusted issuers, subject and time options
+ * @returns The verified credential
+ * @throws JWTVerificationError if the token fails strict parsing
+ * @throws CredentialError if the credential is malformed or fails any check
+ */
+export async function verifyCredential(
+  jwt: string,
+  options: VerifyCredentialOptions = {}
+): Promise<VerifiedCredential> {
+  const parsed = parseJWT(jwt, { requiredClaims: REQUIRED_CLAIMS })
+  const { header, payload } = parsed
+
+  if (header.typ !== 'vc+jwt') {
+    throw new CredentialError('CREDENTIAL_MALFORMED', 'Credential must be a vc+jwt')
+  }
+
+  if (!isCredentialPayload(payload)) {
+    throw new CredentialError('CREDENTIAL_MALFORMED', 'JWT payload is not a Data Model 2.0 credential')
+  }
+
+  if (payload.iss !== payload.issuer || payload.sub !== payload.credentialSubject.id) {
+    throw new CredentialError('CREDENTIAL_MALFORMED', 'JWT claims do not match the credential')
+  }
+
+  // The JWT validity claims must state the same period as the credential, so checking either agrees
+  const validFrom = parseDateTime(payload.validFrom)
+  const validUntil = payload.validUntil !== undefined ? parseDateTime(payload.validUntil) : undefined
+  if (payload.nbf !== validFrom || payload.exp !== validUntil) {
+    throw new CredentialError('CREDENTIAL_MALFORMED', 'JWT nbf/exp do not match the credential validFrom/validUntil')
+  }
+
+  // Resolve the signer's public key from the issuer DID
+  let publicKey: Uint8Array
+  try {
+    publicKey = getPublicKeyFromDid(payload.issuer)
+  } catch (error) {
+    throw new CredentialError(
+      'CREDENTIAL_INVALID_ISSUER',
+      `Credential issuer must be an Ed25519 did:key: ${error instanceof Error ? error.message : 'invalid DID'}`
+    )
+  }
+
+  if (header.kid !== undefined && header.kid !== formatVerificationMethodId(payload.issuer)) {
+    throw new CredentialError('CREDENTIAL_INVALID_ISSUER', 'Credential kid does not match issuer DID')
+  }
+
+  if (!verifyParsedJWT(parsed, publicKey)) {
+    throw new CredentialError('CREDENTIAL_INVALID_SIGNATURE', 'Credential signature does not match issuer DID')
+  }
+
+  // Check validity period
+  const now = options.currentTime ?? Math.floor(Date.now() / 1000)
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE
+
+  // nbf/exp equal validFrom/validUntil (checked above)
+  if (payload.nbf > now + tolerance) {
+    throw new CredentialError('CREDENTIAL_NOT_YET_VALID', 'Credential is not valid yet')
+  }
+
+  if (payload.exp !== undefined && now - tolerance >= payload.exp) {
+    throw new CredentialError('CREDENTIAL_EXPIRED', 'Credential has expired')
+  }
+
+  // Check constraints
+  if (options.trustedIssuers && !options.trustedIssuers.includes(payload.issuer)) {
+    throw new CredentialError('CREDENTIAL_UNTRUSTED_ISSUER', `Credential issuer "${payload.issuer}" is not trusted`)
+  }
+
+  if (options.type !== undefined && !payload.type.includes(options.type)) {
+    throw new CredentialError('CREDENTIAL_TYPE_MISMATCH', `Credential is not a ${options.type}`)
+  }
+
+  if (options.subject !== undefined && payload.credentialSubject.id !== options.subject) {
+    throw new CredentialError('CREDENTIAL_SUBJECT_MISMATCH', 'Credential is about a different subject')
+  }
+
+  return {
+    jwt,
+    credential: toCredential(payload),
+    issuer: payload.issuer,
+    subject: payload.credentialSubject.id
+  }
+}
+
+/**
+ * Verify a credential and keep it with the current profile
+ * Only credentials about the current profile's DID can be stored
+ *
+ * @param jwt - The VC-JWT to hold
+ * @returns The verified credential
+ * @throws JWTVerificationError if the token fails strict parsing
+ * @throws CredentialError if there is no profile or the credential is invalid or about someone else
+ */
+export async function storeCredential(jwt: string): Promise<VerifiedCredential> {
+  const profile = await getProfile()
+  if (!profile) {
+    throw new CredentialError('CREDENTIAL_NO_PROFILE', 'No profile found. User must create a profile first.')
+  }
+
+  const verified = await verifyCredential(jwt, { subject: profile.did })
+
+  const credentials = await getCredentials(profile.did)
+  if (!credentials.includes(jwt)) {
+    await saveCredentials([...credentials, jwt], profile.did)
+  }
+
+  return verified
+}
+
+/**
+ * List the credentials held by the current profile (not re-verified)
+ *
+ * @param options - Optional credential type to filter by
+ * @returns Held credentials, oldest first
+ */
+export async function listCredentials(options: { type?: string } = {}): Promise<HeldCredential[]> {
+  const profile = await getProfile()
+  if (!profile) {
+    return []
+  }
+
+  const heldCredentials: HeldCredential[] = []
+  for (const jwt of await getCredentials(profile.did)) {
+    let payload: unknown
+    try {
+      payload = decodeJWT(jwt).payload
+    } catch {
+      continue
+    }
+
+    if (
+      isCredentialPayload(payload) &&
+      payload.credentialSubject.id === profile.did &&
+      (options.type === undefined || payload.type.includes(options.type))
+    ) {
+      heldCredentials.push({ jwt, credential: toCredential(payload) })
+    }
+  }
+
+  return heldCredentials
+}
+
+/**
+ * Verify an `irl:credential:presentation` JWT (as a mini app backend would)
+ * Every presented credential must be valid and about the presenting DID
+ *
+ * @param jwt - The presentation JWT from `window.irlBrowser.presentCredential()`
+ * @param options - Expected audience and constraints for the presented credentials
+ * @returns The presenting DID and its verified credentials
+ * @throws JWTVerificationError if the presentation is invalid
+ * @throws CredentialError if a presented credential is invalid
+ */
+export async function verifyCredentialPresentation(
+  jwt: string,
+  options: VerifyCredentialPresentationOptions
+): Promise<VerifiedCredentialPresentation> {
+  const { credential: credentialOptions = {}, ...jwtOptions } = options
+
+  const payload = await verifyAndDecodeJWT(jwt, { ...jwtOptions, type: CREDENTIAL_PRESENTATION_TYPE })
+
+  const presented = payload.data?.credentials
+  if (
+    payload.data?.did !== payload.iss ||
+    !Array.isArray(presented) ||
+    !presented.every((credential) => typeof credential === 'string')
+  ) {
+    throw new JWTVerificationError('JWT_MALFORMED', 'Credential presentation data is invalid')
+  }
+
+  const credentials = await Promise.all(
+    presented.map((credential: string) =>
+      verifyCredential(credential, {
+        ...credentialOptions,
+        subject: payload.iss,
+        currentTime: options.currentTime,
+        clockTolerance: options.clockTolerance
+      })
+    )
+  )
+
+  return { did: payload.iss, credentials, payload }
+}
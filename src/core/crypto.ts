@@ -4,80 +4,128 @@
  */
 
 import * as ed25519 from '@stablelib/ed25519'
-import { encode as base58Encode } from 'base58-universal'
+import { hmac } from '@stablelib/hmac'
+import { SHA512 } from '@stablelib/sha512'
+import { entropyToMnemonic, mnemonicToSeedSync, validateMnemonic } from '@scure/bip39'
+import { wordlist as englishWordlist } from '@scure/bip39/wordlists/english'
 import * as base64 from 'base64-js'
-import type { JWTHeader, JWTPayload, ProfileKeys } from '../types'
-
-/**
- * Ed25519 multicodec prefix for did:key format
- * 0xed = 237 (Ed25519 public key)
- * 0x01 = 1 (key type identifier)
- */
-const ED25519_MULTICODEC_PREFIX = new Uint8Array([0xed, 0x01])
+import type {
+  CreateJWTOptions,
+  CredentialJWTPayload,
+  GenerateProfileKeysOptions,
+  JWTHeader,
+  JWTPayload,
+  JWTSigner,
+  MnemonicStrength,
+  ParsedJWT,
+  ProfileKeys,
+  VerifyJWTOptions
+} from '../types'
+import { base64url } from '../utils/encoding'
+import { createDidFromPublicKey, formatVerificationMethodId, getPublicKeyFromDid, getVerificationMethodId } from './did'
+import { JWTVerificationError } from './errors'
+import { parseJWT } from './jwtParser'
+import { getScopedAudience } from './scope'
+import { createLocalSigner } from './keystore'
 
 // Key sizes
 const SEED_SIZE = 32 // Ed25519 seed size in bytes
+const JTI_SIZE = 16 // Random bytes in each token ID
+
+// SLIP-0010 master key derivation for Ed25519
+const SLIP10_ED25519_KEY = new TextEncoder().encode('ed25519 seed')
+
+// Default allowed clock skew when checking exp/iat (seconds)
+export const DEFAULT_CLOCK_TOLERANCE = 30
 
 /**
- * Helper function to encode to base64url (RFC 4648)
- * Converts standard base64 to base64url by replacing + with -, / with _, and removing padding =
+ * Claims every IRL Browser JWT carries
  */
-export const base64url = {
-  encode: (input: Uint8Array): string => {
-    const base64String = base64.fromByteArray(input)
-    return base64String
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '')
-  },
-
-  decode: (input: string): Uint8Array => {
-    // Convert base64url back to base64
-    let base64String = input
-      .replace(/-/g, '+')
-      .replace(/_/g, '/')
+export const REQUIRED_JWT_CLAIMS = ['iss', 'aud', 'iat', 'exp']
 
-    // Add padding if needed
-    const padding = (4 - (base64String.length % 4)) % 4
-    base64String += '='.repeat(padding)
-
-    return base64.toByteArray(base64String)
-  }
-}
+export { base64url }
 
 /**
- * Generates a cryptographically secure random seed for key generation
+ * Generates cryptographically secure random bytes
  */
-function generateRandomSeed(): Uint8Array {
+export function generateRandomBytes(size: number): Uint8Array {
   // Use crypto.getRandomValues in browser, or crypto.randomBytes in Node.js
-  const seed = new Uint8Array(SEED_SIZE)
+  const bytes = new Uint8Array(size)
 
   if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
     // Browser environment
-    crypto.getRandomValues(seed)
+    crypto.getRandomValues(bytes)
   } else if (typeof require !== 'undefined') {
     // Node.js environment
     const nodeCrypto = require('crypto')
-    const randomBytes = nodeCrypto.randomBytes(SEED_SIZE)
-    seed.set(randomBytes)
+    const randomBytes = nodeCrypto.randomBytes(size)
+    bytes.set(randomBytes)
   } else {
     throw new Error('No secure random number generator available')
   }
 
-  return seed
+  return bytes
+}
+
+/**
+ * Generates a cryptographically secure random seed for key generation
+ */
+function generateRandomSeed(): Uint8Array {
+  return generateRandomBytes(SEED_SIZE)
+}
+
+/**
+ * Generates a random token ID for the `jti` claim
+ */
+function generateJti(): string {
+  return base64url.encode(generateRandomBytes(JTI_SIZE))
+}
+
+/**
+ * Generate a new BIP39 recovery phrase (English wordlist)
+ * @param strength - Entropy in bits: 128 for 12 words, 256 for 24 words
+ * @returns Space-separated mnemonic
+ */
+export function generateMnemonic(strength: MnemonicStrength = 128): string {
+  return entropyToMnemonic(generateRandomBytes(strength / 8), englishWordlist)
+}
+
+/**
+ * Normalize a recovery phrase: lowercase, single spaces, no surrounding whitespace
+ */
+function normalizeMnemonic(words: string | string[]): string {
+  const phrase = Array.isArray(words) ? words.join(' ') : words
+  return phrase.trim().toLowerCase().split(/\s+/).join(' ')
+}
+
+/**
+ * Check a recovery phrase against the BIP39 English wordlist and checksum
+ */
+export function isValidMnemonic(words: string | string[]): boolean {
+  return validateMnemonic(normalizeMnemonic(words), englishWordlist)
+}
+
+/**
+ * Derive the Ed25519 seed from a BIP39 recovery phrase
+ * BIP39 seed (no passphrase) -> SLIP-0010 Ed25519 master private key
+ */
+function deriveSeedFromMnemonic(mnemonic: string): Uint8Array {
+  const bip39Seed = mnemonicToSeedSync(mnemonic)
+  const masterKey = hmac(SHA512, SLIP10_ED25519_KEY, bip39Seed)
+
+  // First 32 bytes are the private key; the rest is the chain code
+  return masterKey.slice(0, SEED_SIZE)
 }
 
 /**
  * Generate a new Ed25519 keypair
+ * @param seed - Optional 32-byte seed (random when omitted)
  * @returns Object containing privateKey (base64 string, 64 bytes) and publicKey (Uint8Array, 32 bytes)
  */
-async function generateKeyPair(): Promise<{
+async function generateKeyPair(seed: Uint8Array = generateRandomSeed()): Promise<{
   privateKey: string
   publicKey: Uint8Array
 }> {
-  // Generate random seed (32 bytes)
-  const seed = generateRandomSeed()
-
   // Generate keypair from seed
   const keyPair = ed25519.generateKeyPairFromSeed(seed)
 
@@ -91,72 +139,90 @@ async function generateKeyPair(): Promise<{
   }
 }
 
-/**
- * Create a did:key DID from an Ed25519 public key
- * @param publicKey - The Ed25519 public key as Uint8Array
- * @returns The did:key formatted DID string
- */
-function createDidFromPublicKey(publicKey: Uint8Array): string {
-  // Prepend multicodec prefix to public key
-  const multicodecKey = new Uint8Array(ED25519_MULTICODEC_PREFIX.length + publicKey.length)
-  multicodecKey.set(ED25519_MULTICODEC_PREFIX)
-  multicodecKey.set(publicKey, ED25519_MULTICODEC_PREFIX.length)
-
-  // Base58 encode and prepend 'z' for base58btc multibase encoding
-  const encoded = base58Encode(multicodecKey)
-
-  // Return did:key format (z prefix indicates base58btc encoding)
-  return `did:key:z${encoded}`
-}
-
 /**
  * Generate a complete profile with Ed25519 keypair and DID
- * @returns Object containing privateKey (base64), publicKey (base64), and did (string)
+ * Pass `mnemonic` to derive the keys from a BIP39 recovery phrase, so the same phrase always gives the same DID
+ *
+ * @param options - `mnemonic: true` generates a new phrase; a string derives keys from that phrase
+ * @returns Object containing privateKey (base64), publicKey (base64), did (string) and the mnemonic if used
+ * @throws Error if the given mnemonic is not a valid BIP39 phrase
  */
-export async function generateProfileKeys(): Promise<ProfileKeys> {
-  const { privateKey, publicKey } = await generateKeyPair()
+export async function generateProfileKeys(options: GenerateProfileKeysOptions = {}): Promise<ProfileKeys> {
+  const { mnemonic: mnemonicOption, strength } = options
+
+  let mnemonic: string | undefined
+  if (typeof mnemonicOption === 'string') {
+    mnemonic = normalizeMnemonic(mnemonicOption)
+    if (!validateMnemonic(mnemonic, englishWordlist)) {
+      throw new Error('Invalid recovery phrase')
+    }
+  } else if (mnemonicOption) {
+    mnemonic = generateMnemonic(strength)
+  }
+
+  const { privateKey, publicKey } = await generateKeyPair(
+    mnemonic ? deriveSeedFromMnemonic(mnemonic) : undefined
+  )
   const did = createDidFromPublicKey(publicKey)
 
   return {
     privateKey,
     publicKey: base64.fromByteArray(publicKey),
-    did
+    did,
+    ...(mnemonic && { mnemonic })
+  }
+}
+
+/**
+ * Get the `kid` header for an issuer DID (undefined if the issuer is not an Ed25519 did:key)
+ */
+function getKeyId(iss: string): string | undefined {
+  try {
+    return getVerificationMethodId(iss)
+  } catch {
+    return undefined
   }
 }
 
 /**
  * Create and sign a JWT using Ed25519
  * Matches the Antler IRL Browser app implementation
+ * Adds a random `jti` claim unless the payload already has one
+ * The `kid` header points at the issuer DID's verification method so JOSE libraries can pick the key
  *
- * @param payload - JWT payload containing claims
- * @param privateKey - Base64-encoded 64-byte Ed25519 secret key
+ * @param payload - JWT payload containing claims (or a credential for VC-JWTs)
+ * @param privateKey - Base64-encoded 64-byte Ed25519 secret key, or a JWTSigner
+ * @param options - Optional header `typ` ('vc+jwt' for verifiable credentials)
  * @returns Signed JWT string
  */
-export async function createJWT(payload: JWTPayload, privateKey: string): Promise<string> {
-  // Decode the private key from base64
-  const privateKeyBytes = base64.toByteArray(privateKey)
-
-  // Ed25519 secret key is 64 bytes (32-byte seed + 32-byte public key)
-  if (privateKeyBytes.length !== 64) {
-    throw new Error('Invalid private key length. Expected 64 bytes.')
-  }
+export async function createJWT(
+  payload: JWTPayload | CredentialJWTPayload,
+  privateKey: string | JWTSigner,
+  options: CreateJWTOptions = {}
+): Promise<string> {
+  // Base64 secret keys are signed locally; signers may keep the key elsewhere (e.g. WebCrypto)
+  const signer = typeof privateKey === 'string' ? createLocalSigner(privateKey) : privateKey
 
   // Build JWT header
+  const kid = getKeyId(payload.iss)
   const header: JWTHeader = {
     alg: 'EdDSA',
-    typ: 'JWT',
+    typ: options.typ ?? 'JWT',
+    ...(options.typ === 'vc+jwt' && { cty: 'vc' as const }),
+    ...(kid && { kid })
   }
 
   // Encode header and payload as base64url
   const headerB64 = base64url.encode(new TextEncoder().encode(JSON.stringify(header)))
-  const payloadB64 = base64url.encode(new TextEncoder().encode(JSON.stringify(payload)))
+  const claims = payload.jti ? payload : { ...payload, jti: generateJti() }
+  const payloadB64 = base64url.encode(new TextEncoder().encode(JSON.stringify(claims)))
 
   // Create signing input: "header.payload"
   const signingInput = `${headerB64}.${payloadB64}`
   const signingInputBytes = new TextEncoder().encode(signingInput)
 
   // Sign with Ed25519
-  const signature = ed25519.sign(privateKeyBytes, signingInputBytes)
+  const signature = await signer.sign(signingInputBytes)
 
   // Encode signature as base64url
   const signatureB64 = base64url.encode(signature)
@@ -168,8 +234,17 @@ export async function createJWT(payload: JWTPayload, privateKey: string): Promis
 /**
  * Decode a JWT (for debugging - does NOT verify signature)
  * Use verifyJWT() to verify the signature
+ * Pass `strict: true` to apply the same checks as the verification paths (see parseJWT())
  */
-export function decodeJWT(jwt: string): { header: JWTHeader; payload: JWTPayload; signature: string } {
+export function decodeJWT(
+  jwt: string,
+  options: { strict?: boolean } = {}
+): { header: JWTHeader; payload: JWTPayload; signature: string } {
+  if (options.strict) {
+    const { header, payload } = parseJWT<JWTPayload>(jwt)
+    return { header, payload, signature: jwt.slice(jwt.lastIndexOf('.') + 1) }
+  }
+
   const parts = jwt.split('.')
 
   if (parts.length !== 3) {
@@ -192,8 +267,16 @@ export function decodeJWT(jwt: string): { header: JWTHeader; payload: JWTPayload
   return { header, payload, signature }
 }
 
+/**
+ * Check the Ed25519 signature of a strictly parsed JWT
+ */
+export function verifyParsedJWT(parsed: ParsedJWT<unknown>, publicKey: Uint8Array): boolean {
+  return ed25519.verify(publicKey, new TextEncoder().encode(parsed.signingInput), parsed.signature)
+}
+
 /**
  * Verify a JWT signature using the public key from the DID
+ * The token is strictly parsed first, so malformed tokens never verify
  *
  * @param jwt - The JWT string to verify
  * @param publicKey - The Ed25519 public key (32 bytes) to verify against
@@ -201,25 +284,110 @@ export function decodeJWT(jwt: string): { header: JWTHeader; payload: JWTPayload
  */
 export function verifyJWT(jwt: string, publicKey: Uint8Array): boolean {
   try {
-    const parts = jwt.split('.')
-
-    if (parts.length !== 3) {
-      return false
+    return verifyParsedJWT(parseJWT(jwt), publicKey)
+  } catch (error) {
+    if (!(error instanceof JWTVerificationError)) {
+      console.error('JWT verification error:', error)
     }
+    return false
+  }
+}
 
-    const [encodedHeader, encodedPayload, encodedSignature] = parts
+/**
+ * Decode a JWT and verify it against the DID in its `iss` claim
+ * Strictly parses the token, then checks the signature, `kid`, `exp`/`iat` (with clock skew), `aud`
+ * and optionally `type` and `jti` replay
+ *
+ * @param jwt - The JWT string to verify
+ * @param options - Expected audience and other verification options
+ * @returns The verified JWT payload
+ * @throws JWTVerificationError if the token is malformed or fails any check
+ */
+export async function verifyAndDecodeJWT(jwt: string, options: VerifyJWTOptions): Promise<JWTPayload> {
+  const parsed = parseJWT<JWTPayload>(jwt, { requiredClaims: REQUIRED_JWT_CLAIMS })
+  const { header, payload } = parsed
 
-    // Reconstruct the signing input
-    const signingInput = `${encodedHeader}.${encodedPayload}`
-    const signingInputBytes = new TextEncoder().encode(signingInput)
+  // Resolve the signer's public key from the issuer DID
+  let publicKey: Uint8Array
+  try {
+    publicKey = getPublicKeyFromDid(payload.iss)
+  } catch (error) {
+    throw new JWTVerificationError(
+      'JWT_INVALID_ISSUER',
+      `JWT issuer must be an Ed25519 did:key: ${error instanceof Error ? error.message : 'invalid DID'}`
+    )
+  }
 
-    // Decode the signature
-    const signatureBytes = base64url.decode(encodedSignature)
+  checkKeyId(header, payload.iss)
 
-    // Verify the signature
-    return ed25519.verify(publicKey, signingInputBytes, signatureBytes)
-  } catch (error) {
-    console.error('JWT verification error:', error)
-    return false
+  if (!verifyParsedJWT(parsed, publicKey)) {
+    throw new JWTVerificationError('JWT_INVALID_SIGNATURE', 'JWT signature does not match issuer DID')
   }
+
+  return checkJWTClaims(payload, options)
+}
+
+/**
+ * Check that the `kid` header, if present, names the issuer's verification method
+ * @param iss - An issuer DID whose key was already resolved
+ * @throws JWTVerificationError if the kid belongs to a different key
+ */
+export function checkKeyId(header: JWTHeader, iss: string): void {
+  if (header.kid !== undefined && header.kid !== formatVerificationMethodId(iss)) {
+    throw new JWTVerificationError('JWT_INVALID_ISSUER', 'JWT kid does not match issuer DID')
+  }
+}
+
+/**
+ * Check the claims of a JWT whose signature is already verified
+ * `exp`/`iat` (with clock skew), `aud`, optionally `type`, and `jti` replay last
+ *
+ * @param payload - The verified payload
+ * @param options - Expected audience and other verification options
+ * @returns The payload
+ * @throws JWTVerificationError if any claim check fails
+ */
+export async function checkJWTClaims(payload: JWTPayload, options: VerifyJWTOptions): Promise<JWTPayload> {
+  // Check timestamps
+  const now = options.currentTime ?? Math.floor(Date.now() / 1000)
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE
+
+  if (now - tolerance >= payload.exp) {
+    throw new JWTVerificationError('JWT_EXPIRED', 'JWT has expired')
+  }
+
+  if (payload.iat > now + tolerance) {
+    throw new JWTVerificationError('JWT_NOT_YET_VALID', 'JWT was issued in the future')
+  }
+
+  // Check audience
+  // A scoped token's aud is the origin followed by the scope path
+  const { scope } = options
+  const origins = Array.isArray(options.audience) ? options.audience : [options.audience]
+  const audiences = scope !== undefined ? origins.map((origin) => getScopedAudience(origin, scope)) : origins
+  if (!audiences.includes(payload.aud)) {
+    throw new JWTVerificationError('JWT_AUDIENCE_MISMATCH', `JWT audience "${payload.aud}" is not accepted`)
+  }
+
+  // Check type
+  if (options.type !== undefined) {
+    const types = Array.isArray(options.type) ? options.type : [options.type]
+    if (!types.includes(payload.type)) {
+      throw new JWTVerificationError('JWT_TYPE_MISMATCH', `Unexpected JWT type "${payload.type}"`)
+    }
+  }
+
+  // Check replay last so rejected tokens never occupy the cache
+  if (options.replayCache) {
+    if (typeof payload.jti !== 'string' || !payload.jti) {
+      throw new JWTVerificationError('JWT_MISSING_JTI', 'JWT must contain a jti claim')
+    }
+
+    const isFirstUse = await options.replayCache.checkAndStore(payload.jti, payload.exp + tolerance)
+    if (!isFirstUse) {
+      throw new JWTVerificationError('JWT_REPLAYED', 'JWT has already been used')
+    }
+  }
+
+  return payload
 }
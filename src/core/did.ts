@@ -0,0 +1,219 @@
+/**
+ * did:key utilities for Ed25519 keys
+ * Converts between public keys, did:key strings and W3C DID Documents
+ */
+
+import { encode as base58Encode, decode as base58Decode } from 'base58-universal'
+import type {
+  DIDDocument,
+  Ed25519PublicJwk,
+  ProfileJwks,
+  ProfilePublicJwk,
+  ResolveDidKeyOptions,
+  ResolvedDidKey,
+  VerificationMethod
+} from '../types'
+import { base64url } from '../utils/encoding'
+import { DIDResolutionError } from './errors'
+
+/**
+ * Ed25519 multicodec prefix for did:key format
+ * 0xed = 237 (Ed25519 public key)
+ * 0x01 = 1 (key type identifier)
+ */
+const ED25519_MULTICODEC_PREFIX = new Uint8Array([0xed, 0x01])
+
+const PUBLIC_KEY_SIZE = 32 // Ed25519 public key size in bytes
+
+const DID_KEY_PREFIX = 'did:key:'
+
+// JSON-LD contexts for each verification method type
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1'
+const VERIFICATION_METHOD_CONTEXTS = {
+  Ed25519VerificationKey2020: 'https://w3id.org/security/suites/ed25519-2020/v1',
+  JsonWebKey2020: 'https://w3id.org/security/suites/jws-2020/v1'
+} as const
+
+/**
+ * Create a did:key DID from an Ed25519 public key
+ * @param publicKey - The Ed25519 public key as Uint8Array
+ * @returns The did:key formatted DID string
+ */
+export function createDidFromPublicKey(publicKey: Uint8Array): string {
+  // Prepend multicodec prefix to public key
+  const multicodecKey = new Uint8Array(ED25519_MULTICODEC_PREFIX.length + publicKey.length)
+  multicodecKey.set(ED25519_MULTICODEC_PREFIX)
+  multicodecKey.set(publicKey, ED25519_MULTICODEC_PREFIX.length)
+
+  // Base58 encode and prepend 'z' for base58btc multibase encoding
+  const encoded = base58Encode(multicodecKey)
+
+  // Return did:key format (z prefix indicates base58btc encoding)
+  return `${DID_KEY_PREFIX}z${encoded}`
+}
+
+/**
+ * Extract the Ed25519 public key from a did:key DID
+ * @param did - The did:key formatted DID string
+ * @returns The 32-byte Ed25519 public key
+ * @throws DIDResolutionError if the DID is not a valid Ed25519 did:key
+ */
+export function getPublicKeyFromDid(did: string): Uint8Array {
+  if (typeof did !== 'string' || !did.startsWith('did:')) {
+    throw new DIDResolutionError('DID_INVALID', 'Not a DID')
+  }
+
+  if (!did.startsWith(DID_KEY_PREFIX)) {
+    throw new DIDResolutionError('DID_UNSUPPORTED_METHOD', 'Only the did:key method is supported')
+  }
+
+  // The method-specific identifier is a multibase value; 'z' = base58btc
+  const multibaseValue = did.slice(DID_KEY_PREFIX.length)
+  if (!multibaseValue.startsWith('z')) {
+    throw new DIDResolutionError('DID_INVALID_MULTIBASE', 'did:key must use base58btc (z) multibase encoding')
+  }
+
+  // base58-universal returns undefined for characters outside the alphabet
+  const multicodecKey: Uint8Array | undefined = base58Decode(multibaseValue.slice(1))
+  if (!multicodecKey) {
+    throw new DIDResolutionError('DID_INVALID_MULTIBASE', 'did:key contains invalid base58btc characters')
+  }
+
+  if (
+    multicodecKey.length < ED25519_MULTICODEC_PREFIX.length ||
+    multicodecKey[0] !== ED25519_MULTICODEC_PREFIX[0] ||
+    multicodecKey[1] !== ED25519_MULTICODEC_PREFIX[1]
+  ) {
+    throw new DIDResolutionError('DID_UNSUPPORTED_KEY_TYPE', 'Only Ed25519 (0xed01) did:key DIDs are supported')
+  }
+
+  const publicKey = multicodecKey.slice(ED25519_MULTICODEC_PREFIX.length)
+  if (publicKey.length !== PUBLIC_KEY_SIZE) {
+    throw new DIDResolutionError('DID_INVALID_KEY_LENGTH', `Expected a ${PUBLIC_KEY_SIZE}-byte Ed25519 public key`)
+  }
+
+  return publicKey
+}
+
+/**
+ * Get the ID of a did:key's verification method (used as the JWT `kid`)
+ * @param did - The did:key formatted DID string
+ * @returns `did:key:z...#z...`
+ * @throws DIDResolutionError if the DID is not a valid Ed25519 did:key
+ */
+export function getVerificationMethodId(did: string): string {
+  getPublicKeyFromDid(did)
+  return formatVerificationMethodId(did)
+}
+
+/**
+ * Format the verification method ID of a did:key that is already known to be valid
+ * Skips decoding the key again (used on hot verification paths)
+ */
+export function formatVerificationMethodId(did: string): string {
+  return `${did}#${did.slice(DID_KEY_PREFIX.length)}`
+}
+
+/**
+ * Convert an Ed25519 did:key to a public JWK (RFC 8037 OKP key)
+ * @param did - The did:key formatted DID string
+ * @returns The JWK with `kid` set to the DID verification method ID
+ * @throws DIDResolutionError if the DID is not a valid Ed25519 did:key
+ */
+export function didToJwk(did: string): ProfilePublicJwk {
+  const publicKey = getPublicKeyFromDid(did)
+
+  return {
+    kty: 'OKP',
+    crv: 'Ed25519',
+    x: base64url.encode(publicKey),
+    kid: getVerificationMethodId(did),
+    alg: 'EdDSA',
+    use: 'sig'
+  }
+}
+
+/**
+ * Build a JWK Set for one or more did:key DIDs (e.g. for a /.well-known/jwks.json endpoint)
+ * @param dids - The did:key formatted DID strings
+ * @returns JWK Set with one key per DID
+ * @throws DIDResolutionError if any DID is not a valid Ed25519 did:key
+ */
+export function didsToJwks(dids: string[]): ProfileJwks {
+  return { keys: dids.map(didToJwk) }
+}
+
+/**
+ * Convert an Ed25519 public JWK to its did:key
+ * Other JWK members (`kid`, `alg`, `use`, ...) are ignored
+ *
+ * @param jwk - An OKP JWK with `crv: 'Ed25519'`
+ * @returns The did:key formatted DID string
+ * @throws DIDResolutionError if the JWK is not an Ed25519 public key
+ */
+export function jwkToDid(jwk: Ed25519PublicJwk): string {
+  if (!jwk || typeof jwk !== 'object' || jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519') {
+    throw new DIDResolutionError('DID_UNSUPPORTED_KEY_TYPE', 'Only OKP JWKs with crv Ed25519 are supported')
+  }
+
+  let publicKey: Uint8Array
+  try {
+    if (typeof jwk.x !== 'string' || !/^[A-Za-z0-9_-]+$/.test(jwk.x)) {
+      throw new Error('x is not base64url')
+    }
+    publicKey = base64url.decode(jwk.x)
+  } catch {
+    throw new DIDResolutionError('DID_INVALID_KEY_LENGTH', 'JWK x must be a base64url-encoded public key')
+  }
+
+  if (publicKey.length !== PUBLIC_KEY_SIZE) {
+    throw new DIDResolutionError('DID_INVALID_KEY_LENGTH', `Expected a ${PUBLIC_KEY_SIZE}-byte Ed25519 public key`)
+  }
+
+  return createDidFromPublicKey(publicKey)
+}
+
+/**
+ * Resolve an Ed25519 did:key to its public key and W3C DID Document
+ * See https://w3c-ccg.github.io/did-method-key/
+ *
+ * @param did - The did:key formatted DID string
+ * @param options - DID Document options
+ * @returns The DID, raw public key and DID Document
+ * @throws DIDResolutionError if the DID is not a valid Ed25519 did:key
+ */
+export function resolveDidKey(did: string, options: ResolveDidKeyOptions = {}): ResolvedDidKey {
+  const { verificationMethodType = 'Ed25519VerificationKey2020' } = options
+
+  const publicKey = getPublicKeyFromDid(did)
+  const multibaseValue = did.slice(DID_KEY_PREFIX.length)
+  const verificationMethodId = getVerificationMethodId(did)
+
+  const verificationMethod: VerificationMethod = {
+    id: verificationMethodId,
+    type: verificationMethodType,
+    controller: did
+  }
+
+  if (verificationMethodType === 'JsonWebKey2020') {
+    verificationMethod.publicKeyJwk = {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: base64url.encode(publicKey)
+    }
+  } else {
+    verificationMethod.publicKeyMultibase = multibaseValue
+  }
+
+  const didDocument: DIDDocument = {
+    '@context': [DID_CONTEXT, VERIFICATION_METHOD_CONTEXTS[verificationMethodType]],
+    id: did,
+    verificationMethod: [verificationMethod],
+    authentication: [verificationMethodId],
+    assertionMethod: [verificationMethodId],
+    capabilityInvocation: [verificationMethodId],
+    capabilityDelegation: [verificationMethodId]
+  }
+
+  return { did, publicKey, didDocument }
+}
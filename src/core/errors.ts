@@ -0,0 +1,208 @@
+/**
+ * Typed errors raised by the core package
+ */
+
+/**
+ * Reasons a JWT can be rejected by verifyAndDecodeJWT()
+ */
+export type JWTVerificationErrorCode =
+  | 'JWT_MALFORMED'
+  | 'JWT_TOO_LARGE'
+  | 'JWT_NON_CANONICAL_ENCODING'
+  | 'JWT_DUPLICATE_KEY'
+  | 'JWT_INVALID_HEADER'
+  | 'JWT_INVALID_CLAIMS'
+  | 'JWT_INVALID_ALGORITHM'
+  | 'JWT_INVALID_ISSUER'
+  | 'JWT_INVALID_SIGNATURE'
+  | 'JWT_EXPIRED'
+  | 'JWT_NOT_YET_VALID'
+  | 'JWT_AUDIENCE_MISMATCH'
+  | 'JWT_TYPE_MISMATCH'
+  | 'JWT_MISSING_JTI'
+  | 'JWT_REPLAYED'
+  | 'JWT_NONCE_MISMATCH'
+
+/**
+ * Error thrown when a JWT fails decoding or verification
+ * Check `code` to find out why the token was refused
+ */
+export class JWTVerificationError extends Error {
+  readonly code: JWTVerificationErrorCode
+
+  constructor(code: JWTVerificationErrorCode, message: string) {
+    super(message)
+    this.name = 'JWTVerificationError'
+    this.code = code
+  }
+}
+
+/**
+ * Reasons a DID can be rejected by resolveDidKey()
+ */
+export type DIDResolutionErrorCode =
+  | 'DID_INVALID'
+  | 'DID_UNSUPPORTED_METHOD'
+  | 'DID_INVALID_MULTIBASE'
+  | 'DID_UNSUPPORTED_KEY_TYPE'
+  | 'DID_INVALID_KEY_LENGTH'
+
+/**
+ * Error thrown when a DID cannot be parsed or resolved
+ */
+export class DIDResolutionError extends Error {
+  readonly code: DIDResolutionErrorCode
+
+  constructor(code: DIDResolutionErrorCode, message: string) {
+    super(message)
+    this.name = 'DIDResolutionError'
+    this.code = code
+  }
+}
+
+/**
+ * Reasons a profile backup can fail to export or import
+ */
+export type BackupErrorCode =
+  | 'BACKUP_NO_PROFILE'
+  | 'BACKUP_KEY_NOT_EXPORTABLE'
+  | 'BACKUP_INVALID_PASSPHRASE'
+  | 'BACKUP_INVALID_FORMAT'
+  | 'BACKUP_UNSUPPORTED_VERSION'
+  | 'BACKUP_DECRYPTION_FAILED'
+  | 'BACKUP_KEY_MISMATCH'
+  | 'BACKUP_UNSUPPORTED_RUNTIME'
+
+/**
+ * Error thrown when a profile backup cannot be created or restored
+ */
+export class BackupError extends Error {
+  readonly code: BackupErrorCode
+
+  constructor(code: BackupErrorCode, message: string) {
+    super(message)
+    this.name = 'BackupError'
+    this.code = code
+  }
+}
+
+export type CredentialErrorCode =
+  | 'CREDENTIAL_MALFORMED'
+  | 'CREDENTIAL_INVALID_ISSUER'
+  | 'CREDENTIAL_INVALID_SIGNATURE'
+  | 'CREDENTIAL_EXPIRED'
+  | 'CREDENTIAL_NOT_YET_VALID'
+  | 'CREDENTIAL_UNTRUSTED_ISSUER'
+  | 'CREDENTIAL_TYPE_MISMATCH'
+  | 'CREDENTIAL_SUBJECT_MISMATCH'
+  | 'CREDENTIAL_NO_PROFILE'
+
+/**
+ * Error thrown when a verifiable credential cannot be issued, verified or stored
+ */
+export class CredentialError extends Error {
+  readonly code: CredentialErrorCode
+
+  constructor(code: CredentialErrorCode, message: string) {
+    super(message)
+    this.name = 'CredentialError'
+    this.code = code
+  }
+}
+
+export type JWEErrorCode =
+  | 'JWE_MALFORMED'
+  | 'JWE_UNSUPPORTED_ALGORITHM'
+  | 'JWE_INVALID_KEY'
+  | 'JWE_RECIPIENT_MISMATCH'
+  | 'JWE_DECRYPTION_FAILED'
+  | 'JWE_NO_PROFILE'
+  | 'JWE_KEY_NOT_EXPORTABLE'
+
+/**
+ * Error thrown when data cannot be encrypted to or decrypted for a DID
+ */
+export class JWEError extends Error {
+  readonly code: JWEErrorCode
+
+  constructor(code: JWEErrorCode, message: string) {
+    super(message)
+    this.name = 'JWEError'
+    this.code = code
+  }
+}
+
+export type StorageErrorCode =
+  | 'STORAGE_UNSUPPORTED_VERSION'
+  | 'STORAGE_MIGRATION_FAILED'
+  | 'STORAGE_QUOTA_EXCEEDED'
+
+/**
+ * Error thrown when stored profile data cannot be read or upgraded
+ */
+export class StorageError extends Error {
+  readonly code: StorageErrorCode
+
+  constructor(code: StorageErrorCode, message: string) {
+    super(message)
+    this.name = 'StorageError'
+    this.code = code
+  }
+}
+
+/**
+ * Error codes of the IRL Browser API
+ * Thrown by `window.irlBrowser` methods as IrlBrowserError and posted to the mini app in `irl:error` events
+ */
+export const IrlBrowserErrorCode = {
+  /** No profile has been created, so there is nothing to share or sign with */
+  PROFILE_NOT_FOUND: 'PROFILE_NOT_FOUND',
+  /** The permission is not in the mini app's manifest */
+  PERMISSION_NOT_DECLARED: 'PERMISSION_NOT_DECLARED',
+  /** The user declined the permission prompt */
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+  /** Profile storage could not be read */
+  STORAGE_FAILED: 'STORAGE_FAILED',
+  /** The profile's key is missing or could not sign */
+  SIGNING_FAILED: 'SIGNING_FAILED',
+  /** A method was called with missing or invalid arguments */
+  INVALID_REQUEST: 'INVALID_REQUEST'
+} as const
+
+export type IrlBrowserErrorCode = (typeof IrlBrowserErrorCode)[keyof typeof IrlBrowserErrorCode]
+
+/**
+ * Error thrown by the IRL Browser API (`window.irlBrowser`)
+ * The same `code` and `message` are posted to the mini app as an `irl:error` event
+ */
+export class IrlBrowserError extends Error {
+  readonly code: IrlBrowserErrorCode
+
+  constructor(code: IrlBrowserErrorCode, message: string) {
+    super(message)
+    this.name = 'IrlBrowserError'
+    this.code = code
+  }
+}
+
+/**
+ * Reasons loadManifest() cannot get a manifest to validate
+ */
+export type ManifestErrorCode =
+  | 'MANIFEST_NOT_DECLARED'
+  | 'MANIFEST_FETCH_FAILED'
+  | 'MANIFEST_INVALID_JSON'
+
+/**
+ * Error thrown when an IRL manifest cannot be found or fetched
+ * A manifest that is fetched but has invalid fields is reported in the validation result instead
+ */
+export class ManifestError extends Error {
+  readonly code: ManifestErrorCode
+
+  constructor(code: ManifestErrorCode, message: string) {
+    super(message)
+    this.name = 'ManifestError'
+    this.code = code
+  }
+}
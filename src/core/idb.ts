@@ -0,0 +1,97 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ * Used for data that cannot live in LocalStorage (e.g. non-extractable CryptoKeys, avatar Blobs)
+ * and by IndexedDBStorageAdapter for profile data
+ */
+
+const DB_NAME = 'irl-onboarding'
+const DB_VERSION = 3
+
+/**
+ * Object stores in the irl-onboarding database
+ * - 'keys': WebCrypto keypairs
+ * - 'profile': string values written through IndexedDBStorageAdapter (added in version 2)
+ * - 'avatars': avatar Blobs keyed by content hash, prefixed with the namespace outside the origin's (added in version 3)
+ */
+export type IdbStoreName = 'keys' | 'profile' | 'avatars'
+
+const STORE_NAMES: IdbStoreName[] = ['keys', 'profile', 'avatars']
+
+/**
+ * Check if IndexedDB is available in this environment
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Open the database, creating object stores on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDBAvailable()) {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const storeName of STORE_NAMES) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName)
+        }
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'))
+  })
+}
+
+/**
+ * Run a single request against an object store and close the connection afterwards
+ */
+async function runRequest<T>(
+  storeName: IdbStoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = createRequest(transaction.objectStore(storeName))
+
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Read a value from an object store
+ */
+export async function idbGet<T>(storeName: IdbStoreName, key: string): Promise<T | null> {
+  const value = await runRequest<T | undefined>(storeName, 'readonly', (store) => store.get(key))
+  return value ?? null
+}
+
+/**
+ * Write a value to an object store
+ */
+export async function idbSet(storeName: IdbStoreName, key: string, value: unknown): Promise<void> {
+  await runRequest(storeName, 'readwrite', (store) => store.put(value, key))
+}
+
+/**
+ * Remove a value from an object store
+ */
+export async function idbDelete(storeName: IdbStoreName, key: string): Promise<void> {
+  await runRequest(storeName, 'readwrite', (store) => store.delete(key))
+}
@@ -7,7 +7,52 @@
 export * from '../types'
 
 // Export crypto utilities
-export { generateProfileKeys, createJWT, decodeJWT, verifyJWT } from './crypto'
+export {
+  generateProfileKeys,
+  generateMnemonic,
+  isValidMnemonic,
+  createJWT,
+  decodeJWT,
+  verifyJWT,
+  verifyAndDecodeJWT
+} from './crypto'
+
+// Export strict JWT parser
+export { parseJWT, MAX_JWT_LENGTH } from './jwtParser'
+
+// Export signing key backends
+export { createLocalSigner, createWebCryptoSigner, getProfileSigner } from './keystore'
+
+// Export batch verification
+export { createVerifier } from './verifier'
+
+// Export replay protection
+export { InMemoryReplayCache } from './replay'
+
+// Export DID utilities
+export { resolveDidKey, didToJwk, didsToJwks, jwkToDid } from './did'
+
+// Export errors
+export {
+  JWTVerificationError,
+  DIDResolutionError,
+  BackupError,
+  CredentialError,
+  JWEError,
+  StorageError,
+  IrlBrowserError,
+  IrlBrowserErrorCode,
+  ManifestError
+} from './errors'
+export type {
+  JWTVerificationErrorCode,
+  DIDResolutionErrorCode,
+  BackupErrorCode,
+  CredentialErrorCode,
+  JWEErrorCode,
+  StorageErrorCode,
+  ManifestErrorCode
+} from './errors'
 
 // Export storage utilities
 export {
@@ -16,14 +61,73 @@ export {
   savePrivateKey,
   getPrivateKey,
   clearProfile,
-  hasProfile
+  hasProfile,
+  onExpire,
+  configureStorage,
+  getStorageAdapter,
+  saveAvatar,
+  getAvatar
 } from './storage'
+export {
+  LocalStorageAdapter,
+  SessionStorageAdapter,
+  IndexedDBStorageAdapter,
+  MemoryStorageAdapter
+} from './storageAdapters'
+export { STORAGE_SCHEMA_VERSION } from './storageSchema'
+
+// Export mini app scopes
+export { configureScope, getScope, getScopedAudience } from './scope'
 
 // Export profile management
-export { createProfile, getCurrentProfile, updateProfile } from './profile'
+export {
+  createProfile,
+  getCurrentProfile,
+  updateProfile,
+  recoverProfileFromMnemonic,
+  listProfiles,
+  setActiveProfile,
+  removeProfile
+} from './profile'
+export { onProfileChange } from './profileEvents'
+export { createProfileStore } from './profileStore'
+
+// Export backup and restore
+export { exportProfileBackup, importProfileBackup } from './backup'
+
+// Export verifiable credentials
+export {
+  issueCredential,
+  verifyCredential,
+  storeCredential,
+  listCredentials,
+  verifyCredentialPresentation,
+  CREDENTIALS_V2_CONTEXT,
+  CREDENTIAL_PRESENTATION_TYPE
+} from './credentials'
+
+// Export request signing constants
+export { REQUEST_SIGNATURE_HEADER, REQUEST_SIGNATURE_TYPE } from './request'
+
+// Export encryption to DIDs
+export { encryptForDid, decryptJWE, decryptWithProfile } from './jwe'
+
+// Export migration to native app
+export { createMigrationBundle, verifyMigrationBundle, MIGRATION_AUDIENCE, MIGRATION_URI_PREFIX } from './migration'
 
 // Export API
-export { injectIRLBrowserAPI, removeIRLBrowserAPI, hasIRLBrowserAPI } from './api'
+export {
+  injectIRLBrowserAPI,
+  removeIRLBrowserAPI,
+  hasIRLBrowserAPI,
+  configureClose,
+  configurePermissions,
+  PROFILE_DISCONNECTED_TYPE,
+  IRL_ERROR_TYPE
+} from './api'
+
+// Export IRL manifest loading
+export { loadManifest, validateManifest } from './manifest'
 
 // Export device detection
 export {
@@ -31,6 +135,10 @@ export {
   getPlatform
 } from '../utils/deviceDetection'
 
+// Export QR code encoder
+export { encodeQRCode, getQRCodeSvgPath } from '../utils/qrcode'
+export type { QRCode, QRErrorCorrectionLevel, EncodeQRCodeOptions } from '../utils/qrcode'
+
 // Export validation utilities
 export {
   getPlatformDisplayName,
@@ -0,0 +1,239 @@
+/**
+ * Encryption to a did:key (compact JWE, RFC 7516)
+ * ECDH-ES key agreement on X25519 keys converted from the Ed25519 did:key, Concat KDF (RFC 7518 §4.6) and A256GCM
+ */
+
+import * as ed25519 from '@stablelib/ed25519'
+import * as x25519 from '@stablelib/x25519'
+import { AES } from '@stablelib/aes'
+import { GCM } from '@stablelib/gcm'
+import { hash as sha256 } from '@stablelib/sha256'
+import * as base64 from 'base64-js'
+import type { JWEHeader } from '../types'
+import { base64url } from '../utils/encoding'
+import { generateRandomBytes } from './crypto'
+import { createDidFromPublicKey, formatVerificationMethodId, getPublicKeyFromDid } from './did'
+import { JWEError } from './errors'
+import { getPrivateKey, getProfile } from './storage'
+
+const ALGORITHM = 'ECDH-ES'
+const ENCRYPTION = 'A256GCM'
+const KEY_SIZE = 32 // A256GCM key size in bytes
+const IV_SIZE = 12
+const TAG_SIZE = 16
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]*$/
+
+/**
+ * Encode a 32-bit big-endian integer
+ */
+function uint32BE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, value)
+  return bytes
+}
+
+/**
+ * Prefix data with its 32-bit big-endian length
+ */
+function lengthPrefixed(data: Uint8Array): Uint8Array {
+  return concatBytes(uint32BE(data.length), data)
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * Concat KDF for ECDH-ES in direct key agreement mode
+ * One SHA-256 round covers the 256-bit key; AlgorithmID is the `enc` value, PartyUInfo/PartyVInfo are empty
+ */
+function deriveContentKey(sharedSecret: Uint8Array): Uint8Array {
+  const otherInfo = concatBytes(
+    lengthPrefixed(new TextEncoder().encode(ENCRYPTION)),
+    lengthPrefixed(new Uint8Array(0)),
+    lengthPrefixed(new Uint8Array(0)),
+    uint32BE(KEY_SIZE * 8)
+  )
+
+  return sha256(concatBytes(uint32BE(1), sharedSecret, otherInfo)).slice(0, KEY_SIZE)
+}
+
+/**
+ * X25519 key agreement that rejects low-order public keys (all-zero shared secret)
+ */
+function agreeKey(secretKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  try {
+    return x25519.sharedKey(secretKey, publicKey, true)
+  } catch {
+    throw new JWEError('JWE_INVALID_KEY', 'Key agreement produced an invalid shared secret')
+  }
+}
+
+/**
+ * Encrypt data so only the holder of a did:key's private key can read it
+ *
+ * @param did - Recipient Ed25519 did:key
+ * @param plaintext - Text (encoded as UTF-8) or bytes
+ * @returns Compact JWE
+ * @throws DIDResolutionError if the DID is not a valid Ed25519 did:key
+ */
+export async function encryptForDid(did: string, plaintext: string | Uint8Array): Promise<string> {
+  const recipientKey = ed25519.convertPublicKeyToX25519(getPublicKeyFromDid(did))
+  const ephemeralKeyPair = x25519.generateKeyPair()
+
+  const contentKey = deriveContentKey(agreeKey(ephemeralKeyPair.secretKey, recipientKey))
+
+  const header: JWEHeader = {
+    alg: ALGORITHM,
+    enc: ENCRYPTION,
+    kid: formatVerificationMethodId(did),
+    epk: {
+      kty: 'OKP',
+      crv: 'X25519',
+      x: base64url.encode(ephemeralKeyPair.publicKey)
+    }
+  }
+
+  // The encoded protected header is the additional authenticated data
+  const encodedHeader = base64url.encode(new TextEncoder().encode(JSON.stringify(header)))
+  const iv = generateRandomBytes(IV_SIZE)
+  const plaintextBytes = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext
+
+  const sealed = new GCM(new AES(contentKey)).seal(iv, plaintextBytes, new TextEncoder().encode(encodedHeader))
+  const ciphertext = sealed.subarray(0, sealed.length - TAG_SIZE)
+  const tag = sealed.subarray(sealed.length - TAG_SIZE)
+
+  // No encrypted key: ECDH-ES uses the agreed key directly
+  return [
+    encodedHeader,
+    '',
+    base64url.encode(iv),
+    base64url.encode(ciphertext),
+    base64url.encode(tag)
+  ].join('.')
+}
+
+/**
+ * Parse a compact JWE produced by encryptForDid()
+ */
+function parseJWE(jwe: string): { header: JWEHeader; encodedHeader: string; iv: Uint8Array; sealed: Uint8Array } {
+  const parts = typeof jwe === 'string' ? jwe.split('.') : []
+  if (parts.length !== 5 || !parts.every((part) => BASE64URL_PATTERN.test(part))) {
+    throw new JWEError('JWE_MALFORMED', 'Invalid JWE format. Expected 5 base64url parts separated by dots.')
+  }
+
+  const [encodedHeader, encryptedKey, encodedIv, encodedCiphertext, encodedTag] = parts
+
+  let header: JWEHeader
+  let iv: Uint8Array
+  let ciphertext: Uint8Array
+  let tag: Uint8Array
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64url.decode(encodedHeader))) as JWEHeader
+    iv = base64url.decode(encodedIv)
+    ciphertext = base64url.decode(encodedCiphertext)
+    tag = base64url.decode(encodedTag)
+  } catch {
+    throw new JWEError('JWE_MALFORMED', 'JWE parts are not valid base64url or JSON')
+  }
+
+  if (!header || typeof header !== 'object' || header.alg !== ALGORITHM || header.enc !== ENCRYPTION || encryptedKey) {
+    throw new JWEError('JWE_UNSUPPORTED_ALGORITHM', `Only ${ALGORITHM} with ${ENCRYPTION} is supported`)
+  }
+
+  if (header.epk?.kty !== 'OKP' || header.epk?.crv !== 'X25519' || typeof header.epk?.x !== 'string') {
+    throw new JWEError('JWE_UNSUPPORTED_ALGORITHM', 'JWE ephemeral key must be an X25519 OKP key')
+  }
+
+  if (iv.length !== IV_SIZE || tag.length !== TAG_SIZE) {
+    throw new JWEError('JWE_MALFORMED', 'JWE IV or authentication tag has the wrong length')
+  }
+
+  return { header, encodedHeader, iv, sealed: concatBytes(ciphertext, tag) }
+}
+
+/**
+ * Decrypt a JWE with an Ed25519 secret key
+ *
+ * @param jwe - Compact JWE from encryptForDid()
+ * @param privateKey - Base64-encoded 64-byte Ed25519 secret key (the format stored for 'local' profiles)
+ * @returns The plaintext bytes
+ * @throws JWEError if the JWE is malformed, not for this key or was tampered with
+ */
+export function decryptJWE(jwe: string, privateKey: string): Uint8Array {
+  const { header, encodedHeader, iv, sealed } = parseJWE(jwe)
+
+  const secretKey = base64.toByteArray(privateKey)
+  const did = getDidFromSecretKey(secretKey)
+
+  if (header.kid !== undefined && header.kid !== formatVerificationMethodId(did)) {
+    throw new JWEError('JWE_RECIPIENT_MISMATCH', 'JWE was encrypted for a different DID')
+  }
+
+  let ephemeralKey: Uint8Array
+  try {
+    ephemeralKey = base64url.decode(header.epk.x)
+  } catch {
+    throw new JWEError('JWE_MALFORMED', 'JWE ephemeral key is not valid base64url')
+  }
+
+  if (ephemeralKey.length !== x25519.PUBLIC_KEY_LENGTH) {
+    throw new JWEError('JWE_INVALID_KEY', 'JWE ephemeral key has the wrong length')
+  }
+
+  const contentKey = deriveContentKey(agreeKey(ed25519.convertSecretKeyToX25519(secretKey), ephemeralKey))
+
+  const plaintext = new GCM(new AES(contentKey)).open(iv, sealed, new TextEncoder().encode(encodedHeader))
+  if (!plaintext) {
+    throw new JWEError('JWE_DECRYPTION_FAILED', 'JWE could not be decrypted with this key')
+  }
+
+  return plaintext
+}
+
+/**
+ * Derive the did:key of a 64-byte Ed25519 secret key
+ * Derived from the seed half, which is what decrypts; the public key copy after it is not trusted
+ */
+function getDidFromSecretKey(secretKey: Uint8Array): string {
+  if (secretKey.length !== ed25519.SECRET_KEY_LENGTH) {
+    throw new JWEError('JWE_INVALID_KEY', 'Invalid private key length. Expected 64 bytes.')
+  }
+
+  return createDidFromPublicKey(ed25519.generateKeyPairFromSeed(secretKey.subarray(0, 32)).publicKey)
+}
+
+/**
+ * Decrypt a JWE sent to the current profile's DID
+ *
+ * @param jwe - Compact JWE from encryptForDid()
+ * @returns The plaintext decoded as UTF-8
+ * @throws JWEError if there is no usable profile key or the JWE cannot be decrypted
+ */
+export async function decryptWithProfile(jwe: string): Promise<string> {
+  const profile = await getProfile()
+  if (!profile) {
+    throw new JWEError('JWE_NO_PROFILE', 'No profile found. User must create a profile first.')
+  }
+
+  // X25519 needs the raw Ed25519 secret, which non-extractable keys never reveal
+  if (profile.keyBackend === 'webcrypto') {
+    throw new JWEError(
+      'JWE_KEY_NOT_EXPORTABLE',
+      'This profile uses a non-extractable WebCrypto key and cannot decrypt JWEs'
+    )
+  }
+
+  const privateKey = await getPrivateKey(profile.did)
+  if (!privateKey) {
+    throw new JWEError('JWE_NO_PROFILE', 'No private key found for the current profile')
+  }
+
+  return new TextDecoder().decode(decryptJWE(jwe, privateKey))
+}
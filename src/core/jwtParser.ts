@@ -0,0 +1,248 @@
+/**
+ * Strict JWT parser used by every verification path
+ * Rejects anything the Antler app would never produce: other algorithms, unknown header parameters,
+ * oversized tokens, non-canonical base64url, duplicate JSON keys and mistyped claims
+ */
+
+import type { JWTHeader, ParseJWTOptions, ParsedJWT } from '../types'
+import { base64url } from '../utils/encoding'
+import { JWTVerificationError } from './errors'
+
+/**
+ * Largest accepted token in characters (~1.5 MB, enough for avatar JWTs)
+ */
+export const MAX_JWT_LENGTH = 1.5 * 1024 * 1024
+
+const SIGNATURE_SIZE = 64 // Ed25519 signature size in bytes
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/
+
+// Header parameters and their allowed values
+const ALLOWED_TYPES: ReadonlyArray<JWTHeader['typ']> = ['JWT', 'vc+jwt']
+const ALLOWED_HEADER_PARAMETERS = new Set(['alg', 'typ', 'cty', 'kid'])
+
+// Registered and IRL claims with a fixed JSON type
+const STRING_CLAIMS = ['iss', 'sub', 'aud', 'jti', 'type'] as const
+const NUMERIC_DATE_CLAIMS = ['iat', 'exp', 'nbf'] as const
+
+/**
+ * Decode one base64url segment, rejecting padding, stray characters and non-zero trailing bits
+ */
+function decodeSegment(segment: string, name: string): Uint8Array {
+  if (!BASE64URL_PATTERN.test(segment)) {
+    throw new JWTVerificationError('JWT_NON_CANONICAL_ENCODING', `JWT ${name} is not unpadded base64url`)
+  }
+
+  let bytes: Uint8Array
+  try {
+    bytes = base64url.decode(segment)
+  } catch {
+    throw new JWTVerificationError('JWT_MALFORMED', `JWT ${name} has an invalid base64url length`)
+  }
+
+  // Only one encoding of the bytes is canonical; others would give the same token several signatures
+  if (base64url.encode(bytes) !== segment) {
+    throw new JWTVerificationError('JWT_NON_CANONICAL_ENCODING', `JWT ${name} is not canonical base64url`)
+  }
+
+  return bytes
+}
+
+/**
+ * Find the first object key that appears twice in the same object of a valid JSON text
+ * @returns The duplicated key, or null
+ */
+function findDuplicateKey(json: string): string | null {
+  // One entry per open container: the keys seen so far for objects, null for arrays
+  const stack: Array<Set<string> | null> = []
+  let expectingKey = false
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i]
+
+    if (char === '"') {
+      let end = i + 1
+      let hasEscape = false
+      while (json[end] !== '"') {
+        if (json[end] === '\\') {
+          hasEscape = true
+          end++
+        }
+        end++
+      }
+
+      const keys = stack[stack.length - 1]
+      if (keys && expectingKey) {
+        // Escaped keys are compared by value ("a" and "\u0061" are the same key)
+        const key = hasEscape ? (JSON.parse(json.slice(i, end + 1)) as string) : json.slice(i + 1, end)
+        if (keys.has(key)) {
+          return key
+        }
+        keys.add(key)
+        expectingKey = false
+      }
+
+      i = end
+    } else if (char === '{') {
+      stack.push(new Set())
+      expectingKey = true
+    } else if (char === '[') {
+      stack.push(null)
+      expectingKey = false
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+      expectingKey = false
+    } else if (char === ',') {
+      expectingKey = stack[stack.length - 1] instanceof Set
+    }
+  }
+
+  return null
+}
+
+/**
+ * Decode a segment as a JSON object
+ */
+function parseJsonSegment(bytes: Uint8Array, name: string): Record<string, unknown> {
+  let json: string
+  try {
+    json = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    throw new JWTVerificationError('JWT_MALFORMED', `JWT ${name} is not valid UTF-8`)
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch {
+    throw new JWTVerificationError('JWT_MALFORMED', `JWT ${name} is not valid JSON`)
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new JWTVerificationError(
+      name === 'header' ? 'JWT_INVALID_HEADER' : 'JWT_INVALID_CLAIMS',
+      `JWT ${name} must be a JSON object`
+    )
+  }
+
+  const duplicateKey = findDuplicateKey(json)
+  if (duplicateKey !== null) {
+    throw new JWTVerificationError('JWT_DUPLICATE_KEY', `JWT ${name} contains the key "${duplicateKey}" more than once`)
+  }
+
+  return value as Record<string, unknown>
+}
+
+/**
+ * Check a header `typ` is one this package signs
+ */
+function isJWTType(value: unknown): value is JWTHeader['typ'] {
+  return ALLOWED_TYPES.some((type) => type === value)
+}
+
+/**
+ * Check the header has exactly the shape createJWT() produces
+ */
+function validateHeader(header: Record<string, unknown>): JWTHeader {
+  const { alg, typ, cty, kid } = header
+
+  if (alg !== 'EdDSA') {
+    throw new JWTVerificationError('JWT_INVALID_ALGORITHM', 'JWT must be signed with EdDSA')
+  }
+
+  for (const parameter of Object.keys(header)) {
+    if (!ALLOWED_HEADER_PARAMETERS.has(parameter)) {
+      throw new JWTVerificationError('JWT_INVALID_HEADER', `Unsupported JWT header parameter "${parameter}"`)
+    }
+  }
+
+  if (!isJWTType(typ)) {
+    throw new JWTVerificationError('JWT_INVALID_HEADER', 'JWT header typ must be "JWT" or "vc+jwt"')
+  }
+
+  if (cty !== undefined && cty !== 'vc') {
+    throw new JWTVerificationError('JWT_INVALID_HEADER', 'JWT header cty must be "vc"')
+  }
+
+  if (kid !== undefined && (typeof kid !== 'string' || !kid)) {
+    throw new JWTVerificationError('JWT_INVALID_HEADER', 'JWT header kid must be a non-empty string')
+  }
+
+  return {
+    alg,
+    typ,
+    ...(cty === 'vc' && { cty }),
+    ...(typeof kid === 'string' && { kid })
+  }
+}
+
+/**
+ * Check the types of known claims and that the required ones are present
+ */
+function validateClaims(payload: Record<string, unknown>, header: JWTHeader, requiredClaims: string[]): void {
+  for (const claim of requiredClaims) {
+    if (payload[claim] === undefined) {
+      throw new JWTVerificationError('JWT_INVALID_CLAIMS', `JWT is missing the "${claim}" claim`)
+    }
+  }
+
+  for (const claim of STRING_CLAIMS) {
+    // In a VC-JWT `type` is the credential's type array
+    if (claim === 'type' && header.typ === 'vc+jwt') {
+      continue
+    }
+
+    if (payload[claim] !== undefined && typeof payload[claim] !== 'string') {
+      throw new JWTVerificationError('JWT_INVALID_CLAIMS', `JWT claim "${claim}" must be a string`)
+    }
+  }
+
+  for (const claim of NUMERIC_DATE_CLAIMS) {
+    const value = payload[claim]
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new JWTVerificationError('JWT_INVALID_CLAIMS', `JWT claim "${claim}" must be a NumericDate`)
+    }
+  }
+}
+
+/**
+ * Strictly parse a compact JWS
+ * Does NOT verify the signature; verification paths call this first
+ *
+ * @param jwt - The JWT string
+ * @param options - Claims that must be present
+ * @returns Header, payload, raw signature and signing input
+ * @throws JWTVerificationError with a distinct code for each reason the token is refused
+ */
+export function parseJWT<T = Record<string, unknown>>(jwt: string, options: ParseJWTOptions = {}): ParsedJWT<T> {
+  if (typeof jwt !== 'string') {
+    throw new JWTVerificationError('JWT_MALFORMED', 'JWT must be a string')
+  }
+
+  if (jwt.length > MAX_JWT_LENGTH) {
+    throw new JWTVerificationError('JWT_TOO_LARGE', `JWT is larger than ${MAX_JWT_LENGTH} characters`)
+  }
+
+  const parts = jwt.split('.')
+  if (parts.length !== 3 || parts.some((part) => !part)) {
+    throw new JWTVerificationError('JWT_MALFORMED', 'Invalid JWT format. Expected 3 non-empty parts separated by dots.')
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+
+  const header = validateHeader(parseJsonSegment(decodeSegment(encodedHeader, 'header'), 'header'))
+
+  const payload = parseJsonSegment(decodeSegment(encodedPayload, 'payload'), 'payload')
+  validateClaims(payload, header, options.requiredClaims ?? [])
+
+  const signature = decodeSegment(encodedSignature, 'signature')
+  if (signature.length !== SIGNATURE_SIZE) {
+    throw new JWTVerificationError('JWT_MALFORMED', `JWT signature must be ${SIGNATURE_SIZE} bytes`)
+  }
+
+  return {
+    header,
+    payload: payload as T,
+    signature,
+    signingInput: `${encodedHeader}.${encodedPayload}`
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Signing key backends
+ * 'local' keys are base64 Ed25519 secrets in the configured profile storage (signed with @stablelib/ed25519)
+ * 'webcrypto' keys are non-extractable CryptoKeys in IndexedDB (signed with crypto.subtle)
+ */
+
+import * as ed25519 from '@stablelib/ed25519'
+import * as base64 from 'base64-js'
+import type { JWTSigner, ProfileKeys, StoredProfile } from '../types'
+import { createDidFromPublicKey } from './did'
+import { getPrivateKey, getProfile, getSigningKey } from './storage'
+import { isIndexedDBAvailable } from './idb'
+
+const ED25519_ALGORITHM = { name: 'Ed25519' }
+
+/**
+ * Profile keys whose private half never leaves WebCrypto
+ */
+export interface WebCryptoProfileKeys extends Omit<ProfileKeys, 'privateKey'> {
+  keyPair: CryptoKeyPair
+}
+
+/**
+ * Create a signer from a base64-encoded 64-byte Ed25519 secret key
+ */
+export function createLocalSigner(privateKey: string): JWTSigner {
+  const privateKeyBytes = base64.toByteArray(privateKey)
+
+  // Ed25519 secret key is 64 bytes (32-byte seed + 32-byte public key)
+  if (privateKeyBytes.length !== 64) {
+    throw new Error('Invalid private key length. Expected 64 bytes.')
+  }
+
+  return {
+    sign: async (data) => ed25519.sign(privateKeyBytes, data)
+  }
+}
+
+/**
+ * Create a signer from a WebCrypto Ed25519 private key
+ */
+export function createWebCryptoSigner(privateKey: CryptoKey): JWTSigner {
+  return {
+    sign: async (data) => {
+      const signature = await crypto.subtle.sign(ED25519_ALGORITHM, privateKey, data as BufferSource)
+      return new Uint8Array(signature)
+    }
+  }
+}
+
+/**
+ * Generate a non-extractable Ed25519 keypair with WebCrypto
+ * @returns The keys and DID, or null if the runtime has no Ed25519 WebCrypto support
+ */
+export async function generateWebCryptoProfileKeys(): Promise<WebCryptoProfileKeys | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null
+  }
+
+  let keyPair: CryptoKeyPair
+  try {
+    keyPair = (await crypto.subtle.generateKey(ED25519_ALGORITHM, false, ['sign', 'verify'])) as CryptoKeyPair
+  } catch {
+    // NotSupportedError on runtimes without Ed25519 in WebCrypto
+    return null
+  }
+
+  // Public keys stay exportable even when the private key is not
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+
+  return {
+    did: createDidFromPublicKey(publicKey),
+    publicKey: base64.fromByteArray(publicKey),
+    keyPair
+  }
+}
+
+/**
+ * Check if non-extractable WebCrypto keys can be generated and persisted here
+ */
+export function canUseWebCryptoKeys(): boolean {
+  return isIndexedDBAvailable() && typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+/**
+ * Get a signer for the active profile, whichever backend holds its key
+ * @returns The signer, or null if no profile key is stored
+ */
+export async function getProfileSigner(): Promise<JWTSigner | null> {
+  const profile = await getProfile()
+  return profile ? getSignerForProfile(profile) : null
+}
+
+/**
+ * Get a signer for a stored profile's key
+ * @returns The signer, or null if the profile's key is not stored
+ */
+export async function getSignerForProfile(profile: StoredProfile): Promise<JWTSigner | null> {
+  if (profile.keyBackend === 'webcrypto') {
+    const keyPair = await getSigningKey(profile.did)
+    return keyPair ? createWebCryptoSigner(keyPair.privateKey) : null
+  }
+
+  const privateKey = await getPrivateKey(profile.did)
+  return privateKey ? createLocalSigner(privateKey) : null
+}
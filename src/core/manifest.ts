@@ -0,0 +1,176 @@
+/**
+ * IRL manifest discovery and validation
+ * A mini app declares its manifest with `<link rel="irl-manifest" href="/irl-manifest.json">`; the fields
+ * follow the "IRL Manifest" table in the IRL Browser Specification
+ */
+
+import type {
+  IrlManifest,
+  LoadManifestOptions,
+  LoadManifestResult,
+  ManifestValidationIssue,
+  ManifestValidationResult,
+  ValidateManifestOptions
+} from '../types'
+import { ManifestError } from './errors'
+
+const MANIFEST_LINK_SELECTOR = 'link[rel~="irl-manifest"]'
+
+// Optional string fields, copied as written
+const OPTIONAL_STRING_FIELDS = ['description', 'location', 'type'] as const
+
+// Icons must be web URLs; anything else (e.g. javascript:) is rejected
+const ICON_PROTOCOLS = ['https:', 'http:']
+
+// Stands in for the manifest's URL when checking a relative icon without one
+const PLACEHOLDER_BASE_URL = 'https://manifest.invalid/'
+
+/**
+ * Check an icon URL and resolve it against the manifest's URL
+ * @returns The icon to keep, or an error message
+ */
+function resolveIcon(icon: string, baseUrl?: string): { icon: string } | { error: string } {
+  let url: URL
+  try {
+    url = new URL(icon, baseUrl ?? PLACEHOLDER_BASE_URL)
+  } catch {
+    return { error: `"icon" is not a valid URL: ${icon}` }
+  }
+
+  if (!ICON_PROTOCOLS.includes(url.protocol)) {
+    return { error: `"icon" must be an http(s) URL or a relative path, got ${url.protocol}` }
+  }
+
+  return { icon: baseUrl ? url.href : icon }
+}
+
+/**
+ * Validate a parsed manifest against the IRL Browser Specification
+ * Unknown fields are ignored, so manifests written for newer versions of the spec still load
+ *
+ * @param json - Parsed manifest.json
+ * @param options - `baseUrl` to resolve a relative `icon` against
+ * @returns The typed manifest, or every problem found
+ *
+ * @example
+ * // Check the manifest at build time
+ * const result = validateManifest(JSON.parse(readFileSync('public/irl-manifest.json', 'utf8')))
+ * if (!result.valid) throw new Error(result.errors.map((error) => error.message).join('\n'))
+ */
+export function validateManifest(json: unknown, options: ValidateManifestOptions = {}): ManifestValidationResult {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return { valid: false, errors: [{ field: '', message: 'Manifest must be a JSON object' }] }
+  }
+
+  const fields = json as Record<string, unknown>
+  const errors: ManifestValidationIssue[] = []
+
+  if (fields.name === undefined) {
+    errors.push({ field: 'name', message: '"name" is required' })
+  } else if (typeof fields.name !== 'string' || !fields.name.trim()) {
+    errors.push({ field: 'name', message: '"name" must be a non-empty string' })
+  }
+
+  const manifest: IrlManifest = { name: fields.name as string }
+
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    const value = fields[field]
+    if (value === undefined) {
+      continue
+    }
+
+    if (typeof value !== 'string') {
+      errors.push({ field, message: `"${field}" must be a string` })
+    } else {
+      manifest[field] = value
+    }
+  }
+
+  if (fields.icon !== undefined) {
+    if (typeof fields.icon !== 'string' || !fields.icon) {
+      errors.push({ field: 'icon', message: '"icon" must be a URL string' })
+    } else {
+      const resolved = resolveIcon(fields.icon, options.baseUrl)
+      if ('error' in resolved) {
+        errors.push({ field: 'icon', message: resolved.error })
+      } else {
+        manifest.icon = resolved.icon
+      }
+    }
+  }
+
+  if (fields.permissions !== undefined) {
+    if (!Array.isArray(fields.permissions)) {
+      errors.push({ field: 'permissions', message: '"permissions" must be an array of strings' })
+    } else {
+      fields.permissions.forEach((permission, index) => {
+        if (typeof permission !== 'string' || !permission) {
+          errors.push({ field: `permissions[${index}]`, message: `"permissions[${index}]" must be a non-empty string` })
+        }
+      })
+      manifest.permissions = fields.permissions as string[]
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors }
+  }
+
+  return { valid: true, manifest }
+}
+
+/**
+ * Find the manifest URL declared on the current page
+ * @returns The absolute URL, or null if the page has no `<link rel="irl-manifest">`
+ */
+function findManifestUrl(): string | null {
+  if (typeof document === 'undefined') {
+    return null
+  }
+
+  const href = document.querySelector(MANIFEST_LINK_SELECTOR)?.getAttribute('href')
+  return href ? new URL(href, document.baseURI).href : null
+}
+
+/**
+ * Find, fetch and validate the mini app's manifest, as an IRL Browser does when it loads the page
+ *
+ * @param options - Manifest `url` to use instead of the page's link tag, and a `fetch` implementation
+ * @returns The validation result (with `icon` resolved against the manifest's URL) and the URL fetched
+ * @throws ManifestError if there is no manifest to fetch, the request fails or the body is not JSON
+ *
+ * @example
+ * const result = await loadManifest()
+ * if (result.valid) {
+ *   configurePermissions({ declared: result.manifest.permissions })
+ * }
+ */
+export async function loadManifest(options: LoadManifestOptions = {}): Promise<LoadManifestResult> {
+  const url = options.url ?? findManifestUrl()
+  if (!url) {
+    throw new ManifestError('MANIFEST_NOT_DECLARED', 'No <link rel="irl-manifest"> found on the page')
+  }
+
+  const fetchManifest = options.fetch ?? ((manifestUrl: string) => fetch(manifestUrl))
+
+  let response: Response
+  try {
+    response = await fetchManifest(url)
+  } catch (error) {
+    console.error('Failed to fetch manifest:', error)
+    throw new ManifestError('MANIFEST_FETCH_FAILED', `Failed to fetch manifest from ${url}`)
+  }
+
+  if (!response.ok) {
+    throw new ManifestError('MANIFEST_FETCH_FAILED', `Manifest request to ${url} failed with status ${response.status}`)
+  }
+
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch {
+    throw new ManifestError('MANIFEST_INVALID_JSON', `Manifest at ${url} is not valid JSON`)
+  }
+
+  return { ...validateManifest(json, { baseUrl: url }), url }
+}
@@ -0,0 +1,174 @@
+/**
+ * Migration of a web profile into a native IRL Browser app (e.g. Antler)
+ * The profile is packed into a signed `irl:profile:migration` JWT and shown as a QR code
+ * Payload format: docs/migration-bundle.md
+ */
+
+import * as ed25519 from '@stablelib/ed25519'
+import * as base64 from 'base64-js'
+import type {
+  CreateMigrationBundleOptions,
+  JWTPayload,
+  MigrationBundle,
+  MigrationBundleData,
+  MigrationMethod,
+  VerifiedMigrationBundle,
+  VerifyMigrationBundleOptions
+} from '../types'
+import { DEFAULT_CLOCK_TOLERANCE, createJWT, verifyAndDecodeJWT } from './crypto'
+import { createDidFromPublicKey } from './did'
+import { JWTVerificationError } from './errors'
+import { getProfileSigner } from './keystore'
+import { InMemoryReplayCache } from './replay'
+import { getPrivateKey, getProfile } from './storage'
+
+/**
+ * Audience of migration bundles: any IRL Browser app, not a mini app origin
+ */
+export const MIGRATION_AUDIENCE = 'irl:migration'
+
+/**
+ * Prefix of the QR code contents; the JWT follows it
+ */
+export const MIGRATION_URI_PREFIX = 'antler://migrate?bundle='
+
+const MIGRATION_TYPE = 'irl:profile:migration'
+const DEFAULT_MIGRATION_TTL = 300 // 5 minutes
+
+// Bundle IDs imported in this process, unless the caller passes its own store
+const importedBundles = new InMemoryReplayCache()
+
+/**
+ * Create a signed migration bundle for the current profile
+ * Avatars are not included (too large for a QR code)
+ *
+ * The bundle carries the nonce of the app's migration request, so only that app accepts it
+ *
+ * The bundle only links the DID unless `includePrivateKey` is set: a key bundle puts the bare private key
+ * in the QR code, so anyone who sees or photographs the screen gets the identity
+ *
+ * @param options - The app's nonce, whether to include the private key and how long the bundle is valid
+ * @returns The signed JWT and the URI to encode in a QR code
+ * @throws Error if there is no nonce or no profile
+ */
+export async function createMigrationBundle(options: CreateMigrationBundleOptions): Promise<MigrationBundle> {
+  const { nonce, includePrivateKey = false, expiresIn = DEFAULT_MIGRATION_TTL } = options
+
+  if (!nonce) {
+    throw new Error('A migration nonce from the receiving app is required')
+  }
+
+  const profile = await getProfile()
+  const signer = await getProfileSigner()
+
+  if (!profile || !signer) {
+    throw new Error('No profile found. User must create a profile first.')
+  }
+
+  // Non-extractable keys cannot be transferred, so those profiles are linked instead
+  const privateKey = includePrivateKey && profile.keyBackend !== 'webcrypto' ? await getPrivateKey(profile.did) : null
+  const method: MigrationMethod = privateKey ? 'key' : 'link'
+
+  const data: MigrationBundleData = {
+    version: 2,
+    method,
+    origin: window.location.origin,
+    nonce,
+    profile: {
+      did: profile.did,
+      name: profile.name,
+      socials: profile.socials || []
+    },
+    ...(privateKey && { privateKey })
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const payload: JWTPayload = {
+    iss: profile.did,
+    aud: MIGRATION_AUDIENCE,
+    iat: now,
+    exp: now + expiresIn,
+    type: MIGRATION_TYPE,
+    data
+  }
+
+  const jwt = await createJWT(payload, signer)
+
+  return {
+    jwt,
+    uri: `${MIGRATION_URI_PREFIX}${jwt}`,
+    method,
+    expiresAt: payload.exp
+  }
+}
+
+/**
+ * Verify a migration bundle (as the receiving app would)
+ * Each bundle is accepted once: its `jti` is recorded in the replay cache
+ *
+ * @param input - The QR code contents or the bare JWT
+ * @param options - The nonce this app issued, the replay cache and an optional current time override
+ * @returns The bundle data and verified JWT payload
+ * @throws JWTVerificationError if the bundle is invalid, expired, already imported, carries another nonce
+ *   or its key does not match the DID
+ */
+export async function verifyMigrationBundle(
+  input: string,
+  options: VerifyMigrationBundleOptions
+): Promise<VerifiedMigrationBundle> {
+  const jwt = input.startsWith(MIGRATION_URI_PREFIX) ? input.slice(MIGRATION_URI_PREFIX.length) : input
+
+  if (!options.nonce) {
+    throw new Error('The nonce of the migration request is required')
+  }
+
+  const payload = await verifyAndDecodeJWT(jwt, {
+    audience: MIGRATION_AUDIENCE,
+    type: MIGRATION_TYPE,
+    currentTime: options.currentTime
+  })
+
+  const data = payload.data as MigrationBundleData | undefined
+  if (
+    !data ||
+    data.version !== 2 ||
+    typeof data.nonce !== 'string' ||
+    (data.method !== 'key' && data.method !== 'link') ||
+    data.profile?.did !== payload.iss ||
+    typeof data.profile.name !== 'string'
+  ) {
+    throw new JWTVerificationError('JWT_MALFORMED', 'Migration bundle data is invalid')
+  }
+
+  if (data.method === 'key') {
+    let keyDid: string | null = null
+    try {
+      // Derived from the seed half: the public key copy after it could be swapped without breaking the key
+      const secretKey = typeof data.privateKey === 'string' ? base64.toByteArray(data.privateKey) : null
+      keyDid = secretKey?.length === 64
+        ? createDidFromPublicKey(ed25519.generateKeyPairFromSeed(secretKey.subarray(0, 32)).publicKey)
+        : null
+    } catch {
+      keyDid = null
+    }
+
+    if (keyDid !== payload.iss) {
+      throw new JWTVerificationError('JWT_INVALID_ISSUER', 'Migration bundle private key does not match its DID')
+    }
+  }
+
+  if (data.nonce !== options.nonce) {
+    throw new JWTVerificationError('JWT_NONCE_MISMATCH', 'Migration bundle was created for another migration request')
+  }
+
+  // Recorded last, so a bundle refused for another reason does not use up its jti
+  const replayCache = options.replayCache ?? importedBundles
+  if (typeof payload.jti !== 'string' || !payload.jti) {
+    throw new JWTVerificationError('JWT_MISSING_JTI', 'Migration bundle must contain a jti claim')
+  }
+  if (!(await replayCache.checkAndStore(payload.jti, payload.exp + DEFAULT_CLOCK_TOLERANCE))) {
+    throw new JWTVerificationError('JWT_REPLAYED', 'Migration bundle has already been imported')
+  }
+
+  return { ...data, payload }
+}
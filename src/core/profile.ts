@@ -2,98 +2,294 @@
  * Profile creation and management
  */
 
-import type { Profile, SocialLink } from '../types'
-import { generateProfileKeys } from './crypto'
-import { saveProfile, savePrivateKey, getProfile, getPrivateKey } from './storage'
-import { injectIRLBrowserAPI } from './api'
+import type { CreateProfileOptions, KeyBackend, Profile, SocialLink, StoredProfile } from '../types'
+import { generateProfileKeys, isValidMnemonic } from './crypto'
+import {
+  saveProfile,
+  saveAvatar,
+  discardAvatar,
+  savePrivateKey,
+  saveSigningKey,
+  getProfile,
+  getProfiles,
+  getActiveProfileDid,
+  saveActiveProfileDid,
+  removeStoredProfile,
+  hasProfile
+} from './storage'
+import { canUseWebCryptoKeys, generateWebCryptoProfileKeys } from './keystore'
+import { hasIRLBrowserAPI, injectIRLBrowserAPI, removeIRLBrowserAPI } from './api'
+
+// Name given to a recovered profile when none is provided; the phrase only restores the DID
+const DEFAULT_RECOVERED_NAME = 'Recovered profile'
+
+/**
+ * Generate and persist the profile's keys in the requested backend
+ * Falls back to a 'local' key when WebCrypto Ed25519 or IndexedDB is unavailable
+ * @returns The DID and the backend that actually holds the key
+ */
+async function createProfileKeys(
+  keyBackend: KeyBackend,
+  mnemonic?: string
+): Promise<{ did: string; keyBackend: KeyBackend }> {
+  // Keys derived from a recovery phrase must stay recoverable, so they always use the 'local' backend
+  if (mnemonic) {
+    const { did, privateKey } = await generateProfileKeys({ mnemonic })
+    await savePrivateKey(privateKey, did)
+    return { did, keyBackend: 'local' }
+  }
+
+  if (keyBackend === 'webcrypto' && canUseWebCryptoKeys()) {
+    const webCryptoKeys = await generateWebCryptoProfileKeys()
+
+    if (webCryptoKeys) {
+      try {
+        await saveSigningKey(webCryptoKeys.keyPair, webCryptoKeys.did)
+        return { did: webCryptoKeys.did, keyBackend: 'webcrypto' }
+      } catch (error) {
+        console.warn('Failed to store WebCrypto key, falling back to local key:', error)
+      }
+    } else {
+      console.warn('Ed25519 WebCrypto is not supported, falling back to local key')
+    }
+  }
+
+  const { did, privateKey } = await generateProfileKeys()
+  await savePrivateKey(privateKey, did)
+  return { did, keyBackend: 'local' }
+}
+
+/**
+ * Strip storage details from a stored profile
+ */
+function toProfile(storedProfile: StoredProfile): Profile {
+  return {
+    did: storedProfile.did,
+    name: storedProfile.name,
+    socials: storedProfile.socials,
+    ...(storedProfile.avatarHash !== undefined && { avatarHash: storedProfile.avatarHash }),
+    ...(storedProfile.expiresAt !== undefined && { expiresAt: storedProfile.expiresAt })
+  }
+}
+
+/**
+ * Get when a temporary profile expires (seconds since epoch)
+ * @throws Error if the expiry is invalid or already past
+ */
+function getExpiresAt(options: CreateProfileOptions): number | undefined {
+  if (options.expiresAt === undefined && options.ttl === undefined) {
+    return undefined
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const expiresAt = options.expiresAt
+    ? Math.floor(options.expiresAt.getTime() / 1000)
+    : now + Math.floor(options.ttl as number)
+
+  if (!Number.isFinite(expiresAt) || expiresAt <= now) {
+    throw new Error('Profile expiry must be in the future')
+  }
+
+  return expiresAt
+}
 
 /**
  * Create a new profile with DID and keys
+ * The profile is added to the profiles on this device and becomes the active one.
+ * Pass `options.mnemonic` to derive the keys from a BIP39 recovery phrase,
+ * and `options.ttl` or `options.expiresAt` for a temporary profile that is wiped once it expires
  */
 export async function createProfile(
   name: string,
   socials?: SocialLink[],
-  avatar?: string | null
+  avatar?: string | null,
+  options: CreateProfileOptions = {}
 ): Promise<Profile> {
-  // Generate DID and keys
-  const { did, privateKey } = await generateProfileKeys()
+  const expiresAt = getExpiresAt(options)
 
-  // Create profile object
-  const profile: Profile = {
-    did,
-    name,
-    socials,
-    avatar: avatar || null
-  }
+  // Store the avatar image outside the profile record
+  const avatarHash = avatar ? await saveAvatar(avatar) : undefined
 
-  // Save to storage
-  saveProfile({
-    did: profile.did,
-    name: profile.name,
-    socials: profile.socials,
-    avatar: profile.avatar
-  })
-  savePrivateKey(privateKey)
+  let storedProfile: StoredProfile
+  try {
+    // Generate DID and keys
+    const { did, keyBackend } = await createProfileKeys(options.keyBackend ?? 'local', options.mnemonic)
+
+    // Save to storage
+    storedProfile = { did, name, socials, avatarHash, keyBackend, expiresAt }
+    await saveProfile(storedProfile)
+  } catch (error) {
+    // Nothing references the image if the profile was not saved
+    if (avatarHash) {
+      await discardAvatar(avatarHash)
+    }
+    throw error
+  }
 
   // Inject IRL Browser API
   injectIRLBrowserAPI()
 
   console.log('Profile created successfully:', {
-    did,
+    did: storedProfile.did,
     name,
     socials: socials?.length || 0,
-    hasAvatar: !!avatar
+    hasAvatar: !!avatarHash,
+    keyBackend: storedProfile.keyBackend,
+    expiresAt
   })
 
-  return profile
+  // Same shape as profiles read back from storage
+  return toProfile(storedProfile)
+}
+
+/**
+ * Recover a profile on this device from its BIP39 recovery phrase
+ * The phrase restores the DID; profile details are not part of it. A profile already on this device keeps
+ * its details unless new ones are given; otherwise the profile is named 'Recovered profile' by default
+ *
+ * @param words - The 12 or 24 word phrase (string or array of words)
+ * @param details - Name, socials and avatar for the recovered profile
+ * @returns The recovered profile, now the active one
+ * @throws Error if the phrase is not a valid BIP39 mnemonic
+ */
+export async function recoverProfileFromMnemonic(
+  words: string | string[],
+  details?: { name: string; socials?: SocialLink[]; avatar?: string | null }
+): Promise<Profile> {
+  if (!isValidMnemonic(words)) {
+    throw new Error('Invalid recovery phrase')
+  }
+
+  const mnemonic = Array.isArray(words) ? words.join(' ') : words
+
+  if (!details) {
+    const { did, privateKey } = await generateProfileKeys({ mnemonic })
+    const existingProfile = (await getProfiles()).find((profile) => profile.did === did)
+
+    if (existingProfile) {
+      // Same DID, so the same key: restore it and make the profile active without touching its details
+      await savePrivateKey(privateKey, did)
+      await saveProfile(existingProfile)
+      if (!hasIRLBrowserAPI()) {
+        injectIRLBrowserAPI()
+      }
+
+      console.log('Profile recovered:', { did })
+      return toProfile(existingProfile)
+    }
+  }
+
+  const { name, socials, avatar } = details ?? { name: DEFAULT_RECOVERED_NAME }
+  return createProfile(name, socials, avatar, { mnemonic })
 }
 
 /**
- * Get the current profile
+ * Get the current (active) profile
  */
-export function getCurrentProfile(): Profile | null {
-  const storedProfile = getProfile()
-  const privateKey = getPrivateKey()
+export async function getCurrentProfile(): Promise<Profile | null> {
+  const storedProfile = await getProfile()
 
-  if (!storedProfile || !privateKey) {
+  if (!storedProfile || !(await hasProfile())) {
     return null
   }
 
-  return {
-    did: storedProfile.did,
-    name: storedProfile.name,
-    socials: storedProfile.socials,
-    avatar: storedProfile.avatar
+  return toProfile(storedProfile)
+}
+
+/**
+ * List every profile stored on this device, in creation order
+ */
+export async function listProfiles(): Promise<Profile[]> {
+  const storedProfiles = await getProfiles()
+  return storedProfiles.map(toProfile)
+}
+
+/**
+ * Switch the active profile
+ * `window.irlBrowser` signs with the active profile from the next call on
+ *
+ * @param did - DID of a profile stored on this device
+ * @returns The now active profile
+ * @throws Error if no profile with this DID exists on this device
+ */
+export async function setActiveProfile(did: string): Promise<Profile> {
+  const storedProfile = (await getProfiles()).find((profile) => profile.did === did)
+
+  if (!storedProfile) {
+    throw new Error('No profile with this DID exists on this device')
+  }
+
+  await saveActiveProfileDid(did)
+
+  // The injected API reads the active profile on every call, so it only needs injecting once
+  if (!hasIRLBrowserAPI()) {
+    injectIRLBrowserAPI()
+  }
+
+  console.log('Active profile changed:', { did })
+
+  return toProfile(storedProfile)
+}
+
+/**
+ * Remove a profile and its keys from this device
+ * If it was active, no profile is active afterwards (another user's profile is never selected
+ * automatically) and `window.irlBrowser` is removed
+ *
+ * @param did - DID of the profile to remove
+ */
+export async function removeProfile(did: string): Promise<void> {
+  const wasActive = (await getActiveProfileDid()) === did
+
+  await removeStoredProfile(did)
+
+  if (wasActive) {
+    removeIRLBrowserAPI()
   }
+
+  console.log('Profile removed:', { did })
 }
 
 /**
  * Update the current profile
  */
 export async function updateProfile(
-  updates: Partial<Omit<Profile, 'did'>>
+  updates: Partial<Omit<Profile, 'did' | 'avatarHash' | 'expiresAt'>>
 ): Promise<Profile> {
-  const currentProfile = getCurrentProfile()
+  const storedProfile = await getProfile()
+  const currentProfile = await getCurrentProfile()
 
-  if (!currentProfile) {
+  if (!storedProfile || !currentProfile) {
     throw new Error('No profile exists to update')
   }
 
-  // Merge updates
-  const updatedProfile: Profile = {
-    ...currentProfile,
-    ...updates
+  // A new avatar replaces the stored image; null removes it
+  let avatarHash = storedProfile.avatarHash
+  if (updates.avatar !== undefined) {
+    avatarHash = updates.avatar ? await saveAvatar(updates.avatar) : undefined
+  }
+
+  // Merge updates (keeping the key backend and expiry of the existing profile)
+  const updatedProfile: StoredProfile = {
+    did: storedProfile.did,
+    name: updates.name ?? currentProfile.name,
+    socials: 'socials' in updates ? updates.socials : currentProfile.socials,
+    avatarHash,
+    keyBackend: storedProfile.keyBackend,
+    expiresAt: storedProfile.expiresAt
   }
 
   // Save to storage
-  saveProfile({
-    did: updatedProfile.did,
-    name: updatedProfile.name,
-    socials: updatedProfile.socials,
-    avatar: updatedProfile.avatar
-  })
+  try {
+    await saveProfile(updatedProfile)
+  } catch (error) {
+    if (avatarHash && avatarHash !== storedProfile.avatarHash) {
+      await discardAvatar(avatarHash)
+    }
+    throw error
+  }
 
   console.log('Profile updated successfully')
 
-  return updatedProfile
+  return toProfile(updatedProfile)
 }
@@ -0,0 +1,107 @@
+/**
+ * Profile change events
+ * Storage writes emit them to listeners in this tab and, through a BroadcastChannel, to other tabs
+ * of the same origin that use the same scope
+ */
+
+import type { ProfileChangeEvent, ProfileChangeListener, ProfileChangeType } from '../types'
+import { getScope } from './scope'
+
+const CHANNEL_NAME = 'irl-onboarding:profile-changes'
+
+const CHANGE_TYPES: ReadonlySet<string> = new Set(['created', 'updated', 'switched', 'cleared', 'key-rotated'])
+
+/**
+ * Message posted to other tabs
+ */
+interface ProfileChangeMessage {
+  type: ProfileChangeType
+  did: string
+  scope: string | null // Scope whose profiles changed; null for the origin's shared profiles
+}
+
+const changeListeners = new Set<ProfileChangeListener>()
+
+let channel: BroadcastChannel | null = null
+
+/**
+ * Scope path that owns the profiles in use, or null when they are the origin's
+ * Matches how storage namespaces profiles: only a scope with a separate DID has its own
+ */
+function getProfileScope(): string | null {
+  const scope = getScope()
+  return scope?.separateDid ? scope.path : null
+}
+
+function notifyListeners(event: ProfileChangeEvent): void {
+  for (const listener of changeListeners) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Profile change listener failed:', error)
+    }
+  }
+}
+
+function isProfileChangeMessage(data: unknown): data is ProfileChangeMessage {
+  if (!data || typeof data !== 'object') {
+    return false
+  }
+
+  const message = data as Record<string, unknown>
+  return (
+    typeof message.type === 'string' &&
+    CHANGE_TYPES.has(message.type) &&
+    typeof message.did === 'string' &&
+    (message.scope === null || typeof message.scope === 'string')
+  )
+}
+
+/**
+ * Open the channel to other tabs on first use
+ * Only in browsers: outside one there are no other tabs, and an open channel keeps Node processes alive
+ */
+function getChannel(): BroadcastChannel | null {
+  if (channel || typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return channel
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = (e: MessageEvent) => {
+    if (isProfileChangeMessage(e.data) && e.data.scope === getProfileScope()) {
+      notifyListeners({ type: e.data.type, did: e.data.did, remote: true })
+    }
+  }
+
+  return channel
+}
+
+/**
+ * Report a change to stored profiles, in this tab and in other tabs
+ */
+export function emitProfileChange(type: ProfileChangeType, did: string): void {
+  notifyListeners({ type, did, remote: false })
+
+  const message: ProfileChangeMessage = { type, did, scope: getProfileScope() }
+  try {
+    getChannel()?.postMessage(message)
+  } catch (error) {
+    console.error('Failed to broadcast profile change:', error)
+  }
+}
+
+/**
+ * Run a callback whenever a profile is created, updated, switched, cleared or has its key replaced,
+ * in this tab or in another tab of the same origin and scope
+ *
+ * @returns Function that removes the listener
+ */
+export function onProfileChange(listener: ProfileChangeListener): () => void {
+  changeListeners.add(listener)
+  // Listen to other tabs from now on, even if this tab never writes
+  getChannel()
+
+  return () => {
+    changeListeners.delete(listener)
+  }
+}
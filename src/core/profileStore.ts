@@ -0,0 +1,97 @@
+/**
+ * Subscribable profile store
+ * Keeps a snapshot of the active profile and the profile list, refreshed on every profile change event
+ * and on changes the storage adapter reports. Built for React's useSyncExternalStore but framework-agnostic.
+ */
+
+import type { ProfileStore, ProfileStoreState, StorageAdapter } from '../types'
+import { getCurrentProfile, listProfiles } from './profile'
+import { onProfileChange } from './profileEvents'
+import { getStorageAdapter, subscribeToProfileStorage } from './storage'
+
+const INITIAL_STATE: ProfileStoreState = {
+  profile: null,
+  profiles: [],
+  isLoading: true
+}
+
+/**
+ * Create a store over the profiles on this device
+ * The store reads storage while it has subscribers, starting with the first one
+ *
+ * @example
+ * const store = createProfileStore()
+ * const unsubscribe = store.subscribe(() => render(store.getSnapshot().profile))
+ */
+export function createProfileStore(): ProfileStore {
+  let state = INITIAL_STATE
+  const storeListeners = new Set<() => void>()
+  let stopChangeEvents: (() => void) | null = null
+  let stopStorageEvents: (() => void) | null = null
+  let listeningAdapter: StorageAdapter | null = null
+
+  // Only the latest refresh may update the snapshot, so a slow read never overwrites a newer one
+  let refreshCount = 0
+
+  // Storage events come from the adapter, so follow a switch to another one (configureStorage())
+  const listenToStorage = (): void => {
+    const adapter = getStorageAdapter()
+    if (adapter === listeningAdapter) {
+      return
+    }
+
+    stopStorageEvents?.()
+    stopStorageEvents = subscribeToProfileStorage(() => {
+      refresh()
+    })
+    listeningAdapter = adapter
+  }
+
+  const refresh = async (): Promise<void> => {
+    if (stopChangeEvents) {
+      listenToStorage()
+    }
+
+    const refreshId = ++refreshCount
+    const [profile, profiles] = await Promise.all([getCurrentProfile(), listProfiles()])
+
+    if (refreshId !== refreshCount) {
+      return
+    }
+
+    state = { profile, profiles, isLoading: false }
+    for (const listener of storeListeners) {
+      listener()
+    }
+  }
+
+  const subscribe = (onStoreChange: () => void): (() => void) => {
+    storeListeners.add(onStoreChange)
+
+    if (!stopChangeEvents) {
+      stopChangeEvents = onProfileChange(() => {
+        refresh()
+      })
+
+      refresh()
+    }
+
+    return () => {
+      storeListeners.delete(onStoreChange)
+
+      if (storeListeners.size === 0 && stopChangeEvents) {
+        stopChangeEvents()
+        stopStorageEvents?.()
+        stopChangeEvents = null
+        stopStorageEvents = null
+        listeningAdapter = null
+      }
+    }
+  }
+
+  return {
+    getSnapshot: () => state,
+    subscribe,
+    refresh
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * In-memory replay cache for JWT token IDs
+ */
+
+import type { ReplayCache } from '../types'
+
+const DEFAULT_MAX_ENTRIES = 10000
+
+/**
+ * Replay cache that keeps token IDs in memory until they expire
+ * When full, the least recently stored IDs are evicted first, so size it for the
+ * number of tokens you expect to accept within one expiry window (2 minutes by default).
+ * Use a shared store (e.g. Redis) instead when running more than one server process.
+ */
+export class InMemoryReplayCache implements ReplayCache {
+  private readonly entries = new Map<string, number>()
+  private readonly maxEntries: number
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  }
+
+  /**
+   * Record a token ID until it expires
+   * @returns false if the token ID was already recorded and has not yet expired
+   */
+  checkAndStore(jti: string, expiresAt: number): boolean {
+    const now = Math.floor(Date.now() / 1000)
+    const existingExpiry = this.entries.get(jti)
+
+    if (existingExpiry !== undefined && existingExpiry > now) {
+      return false
+    }
+
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(jti)
+    this.entries.set(jti, expiresAt)
+    this.evict(now)
+
+    return true
+  }
+
+  /**
+   * Number of token IDs currently held
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Drop expired entries from the oldest end, then the oldest entries while over capacity
+   */
+  private evict(now: number): void {
+    for (const [jti, expiresAt] of this.entries) {
+      if (expiresAt > now && this.entries.size <= this.maxEntries) {
+        break
+      }
+      this.entries.delete(jti)
+    }
+  }
+}
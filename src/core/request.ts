@@ -0,0 +1,45 @@
+/**
+ * Request signing shared by the mock IRL Browser and the server verifier
+ * An `irl:request` JWT binds the method, URL and a SHA-256 digest of the body, so the body itself is not part of the token
+ */
+
+import { hash as sha256 } from '@stablelib/sha256'
+import type { SignRequestInput } from '../types'
+import { base64url } from '../utils/encoding'
+
+/**
+ * JWT `type` of signed requests
+ */
+export const REQUEST_SIGNATURE_TYPE = 'irl:request'
+
+/**
+ * HTTP header the mini app sends the signed request JWT in
+ */
+export const REQUEST_SIGNATURE_HEADER = 'IRL-Signature'
+
+/**
+ * Normalize a request into the values that are signed
+ *
+ * @param request - Method, URL and body of the request
+ * @param baseUrl - Base for relative URLs
+ * @returns Uppercase method, absolute URL without fragment and base64url body digest
+ * @throws TypeError if the URL cannot be parsed
+ */
+export function getRequestBinding(
+  request: SignRequestInput,
+  baseUrl?: string
+): { method: string; url: string; bodyDigest: string } {
+  const url = new URL(request.url, baseUrl)
+  url.hash = ''
+
+  const { body } = request
+  const bodyBytes = typeof body === 'string'
+    ? new TextEncoder().encode(body)
+    : body ?? new Uint8Array(0)
+
+  return {
+    method: request.method.toUpperCase(),
+    url: url.href,
+    bodyDigest: base64url.encode(sha256(bodyBytes))
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Profile scopes for mini apps that share one origin under different paths (e.g. /venue-a, /venue-b)
+ * A scope namespaces storage, can have its own DID, and is signed into `aud` as the scoped URL
+ */
+
+import type { ProfileScope, ScopeOptions } from '../types'
+
+// One or more non-empty path segments of unreserved / sub-delim characters
+const SCOPE_PATTERN = /^(\/[A-Za-z0-9._~!$&'()*+,;=:@-]+)+$/
+
+let currentScope: ProfileScope | null = null
+
+/**
+ * Normalize a scope path: leading slash, no trailing slash
+ *
+ * @param scope - Path such as 'venue-a', '/venue-a' or '/venue-a/'
+ * @returns The normalized path, e.g. '/venue-a'
+ * @throws Error if the path is empty or contains characters that are not allowed in a URL path
+ */
+export function normalizeScope(scope: string): string {
+  const path = `/${scope.trim().replace(/^\/+|\/+$/g, '')}`
+
+  if (!SCOPE_PATTERN.test(path) || path.split('/').some((segment) => segment === '.' || segment === '..')) {
+    throw new Error(`Invalid scope "${scope}". Use a URL path such as "/venue-a".`)
+  }
+
+  return path
+}
+
+/**
+ * Get the `aud` a scoped profile signs for
+ *
+ * @param origin - Mini app origin, e.g. 'https://example.app'
+ * @param scope - Scope path, e.g. '/venue-a'
+ * @returns The scoped URL, e.g. 'https://example.app/venue-a'
+ */
+export function getScopedAudience(origin: string, scope: string): string {
+  return `${origin.replace(/\/+$/, '')}${normalizeScope(scope)}`
+}
+
+/**
+ * Select the scope profiles are created, stored and signed in
+ * Call before reading or creating a profile, like configureStorage()
+ *
+ * @param scope - Scope path or options, or null for the whole origin (default)
+ */
+export function configureScope(scope: string | ScopeOptions | null): void {
+  if (scope === null) {
+    currentScope = null
+    return
+  }
+
+  const options = typeof scope === 'string' ? { path: scope } : scope
+  currentScope = {
+    path: normalizeScope(options.path),
+    separateDid: options.separateDid ?? false
+  }
+}
+
+/**
+ * Get the configured scope, or null when profiles are origin-wide
+ */
+export function getScope(): ProfileScope | null {
+  return currentScope
+}
+
+/**
+ * Get the `aud` for JWTs signed by the mock IRL Browser
+ * The origin, or the scoped URL when a scope is configured
+ */
+export function getAudience(): string {
+  return currentScope ? getScopedAudience(window.location.origin, currentScope.path) : window.location.origin
+}
@@ -1,61 +1,447 @@
 /**
- * LocalStorage wrapper for profile storage
+ * Profile storage through a pluggable StorageAdapter (LocalStorage by default)
+ * A device can hold several profiles; keys and credentials are stored per DID and one profile is active.
+ * Keys are namespaced by the configured scope (see scope.ts); the stored layout is versioned (see storageSchema.ts).
+ * WebCrypto signing keys and avatar images are kept in IndexedDB (see avatarStore.ts).
+ * Every write emits a profile change event (see profileEvents.ts)
  */
 
-import type { StoredProfile } from '../types'
+import type { ProfileExpireListener, StorageAdapter, StoredProfile } from '../types'
+import { idbDelete, idbGet, idbSet, isIndexedDBAvailable } from './idb'
+import { LocalStorageAdapter } from './storageAdapters'
+import { encodeProfilesRecord, migrateStorage, quarantineRecord, readProfilesRecord } from './storageSchema'
+import { getScope } from './scope'
+import { emitProfileChange } from './profileEvents'
+import { dataURLToBlob, deleteAvatar, putAvatar, readAvatar } from './avatarStore'
+import { StorageError } from './errors'
+import { removeIRLBrowserAPI } from './api'
 
 const STORAGE_KEYS = {
-  PROFILE: 'irl-onboarding:profile',
+  PROFILES: 'irl-onboarding:profiles',
+  ACTIVE_PROFILE: 'irl-onboarding:activeProfile',
   PRIVATE_KEY: 'irl-onboarding:privateKey',
+  SIGNING_KEY: 'irl-onboarding:signingKey',
+  CREDENTIALS: 'irl-onboarding:credentials',
 } as const
 
+// Keys that make up a profile's identity; a scope only gets its own when it has a separate DID
+const IDENTITY_KEYS: ReadonlySet<string> = new Set([
+  STORAGE_KEYS.PROFILES,
+  STORAGE_KEYS.ACTIVE_PROFILE,
+  STORAGE_KEYS.PRIVATE_KEY,
+  STORAGE_KEYS.SIGNING_KEY,
+])
+
+/**
+ * Storage key in the configured scope's namespace (e.g. `irl-onboarding@/venue-a:credentials`)
+ */
+function scopedKey(key: string): string {
+  const scope = getScope()
+  if (!scope || (!scope.separateDid && IDENTITY_KEYS.has(key))) {
+    return key
+  }
+
+  return key.replace(/^irl-onboarding:/, `irl-onboarding@${scope.path}:`)
+}
+
+/**
+ * Prefix of the configured scope's identity keys; the unit the storage schema is versioned in
+ */
+function identityNamespace(): string {
+  const scope = getScope()
+  return scope?.separateDid ? `irl-onboarding@${scope.path}` : 'irl-onboarding'
+}
+
+/**
+ * Key of a per-profile entry (e.g. `irl-onboarding:privateKey:did:key:z6Mk...`)
+ */
+function profileKey(prefix: string, did: string): string {
+  return `${prefix}:${did}`
+}
+
+let storageAdapter: StorageAdapter = new LocalStorageAdapter()
+
+// One schema upgrade per adapter and namespace, shared by concurrent callers
+const schemaUpgrades = new WeakMap<StorageAdapter, Map<string, Promise<void>>>()
+
+const expireListeners = new Set<ProfileExpireListener>()
+
+// Expiries in progress by DID, so concurrent reads wipe a profile and notify listeners once
+const pendingExpiries = new Map<string, Promise<void>>()
+
+/**
+ * Select where profile data is kept
+ * Call before creating or reading a profile; data already in the previous adapter is not moved
+ *
+ * @param adapter - A built-in adapter (LocalStorageAdapter, SessionStorageAdapter,
+ *   IndexedDBStorageAdapter, MemoryStorageAdapter) or your own StorageAdapter
+ */
+export function configureStorage(adapter: StorageAdapter): void {
+  storageAdapter = adapter
+}
+
 /**
- * Save profile to LocalStorage
+ * Get the adapter profile data is currently kept in
  */
-export function saveProfile(profile: StoredProfile): void {
+export function getStorageAdapter(): StorageAdapter {
+  return storageAdapter
+}
+
+/**
+ * Get the configured adapter once the current namespace has been upgraded to the current schema
+ */
+async function getAdapter(): Promise<StorageAdapter> {
+  const adapter = storageAdapter
+  const namespace = identityNamespace()
+
+  let upgrades = schemaUpgrades.get(adapter)
+  if (!upgrades) {
+    upgrades = new Map()
+    schemaUpgrades.set(adapter, upgrades)
+  }
+
+  let upgrade = upgrades.get(namespace)
+  if (!upgrade) {
+    upgrade = migrateStorage(adapter, namespace)
+    upgrades.set(namespace, upgrade)
+    // Allow a retry if the upgrade failed (e.g. storage was temporarily unavailable)
+    upgrade.catch(() => upgrades.delete(namespace))
+  }
+
+  await upgrade
+  return adapter
+}
+
+/**
+ * Listen for profile changes made outside this page (e.g. in other tabs)
+ * Only fires if the configured adapter reports changes
+ *
+ * @returns Function that stops listening
+ */
+export function subscribeToProfileStorage(listener: () => void): () => void {
+  const adapter = storageAdapter
+  if (!adapter.subscribe) {
+    return () => {}
+  }
+
+  return adapter.subscribe((key) => {
+    if (key === scopedKey(STORAGE_KEYS.PROFILES) || key === scopedKey(STORAGE_KEYS.ACTIVE_PROFILE) || key === null) {
+      listener()
+    }
+  })
+}
+
+/**
+ * Read the profile list, letting storage errors propagate
+ * Corrupt records are recovered as described in readProfilesRecord()
+ */
+async function readProfiles(adapter: StorageAdapter): Promise<StoredProfile[]> {
+  return readProfilesRecord(adapter, identityNamespace())
+}
+
+/**
+ * Check if a temporary profile is past its expiry
+ */
+function isExpired(profile: StoredProfile, now: number): boolean {
+  return profile.expiresAt !== undefined && profile.expiresAt <= now
+}
+
+/**
+ * Wipe an expired profile, remove the injected API if it was active and notify listeners
+ */
+function expireProfile(adapter: StorageAdapter, profile: StoredProfile): Promise<void> {
+  let expiry = pendingExpiries.get(profile.did)
+  if (expiry) {
+    return expiry
+  }
+
+  expiry = (async () => {
+    const wasActive = (await adapter.get(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))) === profile.did
+    await removeStoredProfile(profile.did)
+
+    if (wasActive) {
+      removeIRLBrowserAPI()
+    }
+
+    console.log('Temporary profile expired:', { did: profile.did })
+
+    const { keyBackend, ...expiredProfile } = profile
+    for (const listener of expireListeners) {
+      try {
+        listener(expiredProfile)
+      } catch (error) {
+        console.error('Profile expire listener failed:', error)
+      }
+    }
+  })().finally(() => pendingExpiries.delete(profile.did))
+
+  pendingExpiries.set(profile.did, expiry)
+  return expiry
+}
+
+/**
+ * Run a callback whenever a temporary profile expires and is wiped
+ * Expiry is detected when profiles are read (e.g. by getCurrentProfile() or hasProfile())
+ *
+ * @returns Function that removes the listener
+ */
+export function onExpire(listener: ProfileExpireListener): () => void {
+  expireListeners.add(listener)
+
+  return () => {
+    expireListeners.delete(listener)
+  }
+}
+
+/**
+ * Read the profile list, wiping expired temporary profiles
+ */
+async function loadProfiles(adapter: StorageAdapter): Promise<StoredProfile[]> {
+  const profiles = await readProfiles(adapter)
+
+  const now = Math.floor(Date.now() / 1000)
+  for (const profile of profiles) {
+    if (isExpired(profile, now)) {
+      await expireProfile(adapter, profile)
+    }
+  }
+
+  return profiles.filter((profile) => !isExpired(profile, now))
+}
+
+/**
+ * Get every profile stored on this device, in creation order
+ * Expired temporary profiles are wiped instead of returned
+ */
+export async function getProfiles(): Promise<StoredProfile[]> {
+  try {
+    return await loadProfiles(await getAdapter())
+  } catch (error) {
+    console.error('Failed to get profiles:', error)
+    return []
+  }
+}
+
+/**
+ * Get the DID of the active profile
+ */
+export async function getActiveProfileDid(): Promise<string | null> {
+  try {
+    const adapter = await getAdapter()
+    return await adapter.get(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))
+  } catch (error) {
+    console.error('Failed to get active profile:', error)
+    return null
+  }
+}
+
+/**
+ * Make a stored profile the active one
+ */
+export async function saveActiveProfileDid(did: string): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEYS.PROFILE, JSON.stringify(profile))
+    const adapter = await getAdapter()
+    await adapter.set(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE), did)
+  } catch (error) {
+    console.error('Failed to save active profile:', error)
+    throw new Error('Failed to save active profile to storage')
+  }
+
+  emitProfileChange('switched', did)
+}
+
+/**
+ * Save a profile and make it the active one
+ * Replaces the stored profile with the same DID, or adds it to the list
+ */
+export async function saveProfile(profile: StoredProfile): Promise<void> {
+  let isNew: boolean
+  let wasActive: boolean
+
+  try {
+    const adapter = await getAdapter()
+    const profiles = await readProfiles(adapter)
+    const index = profiles.findIndex((stored) => stored.did === profile.did)
+    const previousAvatarHash = index === -1 ? undefined : profiles[index].avatarHash
+    isNew = index === -1
+    wasActive = (await adapter.get(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))) === profile.did
+
+    if (index === -1) {
+      profiles.push(profile)
+    } else {
+      profiles[index] = profile
+    }
+
+    await adapter.set(scopedKey(STORAGE_KEYS.PROFILES), encodeProfilesRecord(profiles))
+    await adapter.set(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE), profile.did)
+    await releaseAvatar(adapter, previousAvatarHash, profiles)
   } catch (error) {
     console.error('Failed to save profile:', error)
-    throw new Error('Failed to save profile to LocalStorage')
+    if (isQuotaExceededError(error)) {
+      throw new StorageError('STORAGE_QUOTA_EXCEEDED', 'Not enough storage space to save the profile')
+    }
+    throw new Error('Failed to save profile to storage')
+  }
+
+  emitProfileChange(isNew ? 'created' : 'updated', profile.did)
+  if (!isNew && !wasActive) {
+    emitProfileChange('switched', profile.did)
   }
 }
 
 /**
- * Get profile from LocalStorage
+ * Check if a write failed because the storage quota is used up
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  return typeof DOMException !== 'undefined' && error instanceof DOMException && error.name === 'QuotaExceededError'
+}
+
+/**
+ * Save an avatar image outside the profile record
+ * Reference it from the profile as `avatarHash`; saving the same image twice stores it once
+ *
+ * @param avatar - Image as a data URL (e.g. from processImageFile())
+ * @returns SHA-256 (hex) of the image
+ * @throws StorageError with code STORAGE_QUOTA_EXCEEDED if there is no space left
  */
-export function getProfile(): StoredProfile | null {
+export async function saveAvatar(avatar: string): Promise<string> {
   try {
-    const profileString = localStorage.getItem(STORAGE_KEYS.PROFILE)
-    if (!profileString) {
-      return null
+    const adapter = await getAdapter()
+    return await putAvatar(adapter, identityNamespace(), dataURLToBlob(avatar))
+  } catch (error) {
+    console.error('Failed to save avatar:', error)
+    if (isQuotaExceededError(error)) {
+      throw new StorageError('STORAGE_QUOTA_EXCEEDED', 'Not enough storage space to save the avatar')
     }
+    throw new Error('Failed to save avatar to storage')
+  }
+}
+
+/**
+ * Remove a saved avatar unless a stored profile references it
+ * Use after the profile write that would have referenced it fails, so the image is not left behind
+ */
+export async function discardAvatar(avatarHash: string): Promise<void> {
+  try {
+    const adapter = await getAdapter()
+    await releaseAvatar(adapter, avatarHash, await readProfiles(adapter))
+  } catch (error) {
+    console.error('Failed to clear avatar:', error)
+  }
+}
 
-    return JSON.parse(profileString) as StoredProfile
+/**
+ * Load a profile's avatar image
+ * Profiles only hold the image's hash, so the image is read when it is displayed or shared
+ *
+ * @param avatarHash - The profile's `avatarHash`
+ * @returns The image, or null if it is not stored
+ */
+export async function getAvatar(avatarHash: string): Promise<Blob | null> {
+  try {
+    const adapter = await getAdapter()
+    return await readAvatar(adapter, identityNamespace(), avatarHash)
   } catch (error) {
-    console.error('Failed to get profile:', error)
+    console.error('Failed to get avatar:', error)
     return null
   }
 }
 
 /**
- * Save private key to LocalStorage
+ * Remove an avatar image once no profile in the current namespace references it
+ * Other namespaces keep their own copy (see avatarStore.ts), so only these profiles need checking
  */
-export function savePrivateKey(privateKey: string): void {
+async function releaseAvatar(
+  adapter: StorageAdapter,
+  avatarHash: string | undefined,
+  profiles: StoredProfile[]
+): Promise<void> {
+  if (!avatarHash || profiles.some((profile) => profile.avatarHash === avatarHash)) {
+    return
+  }
+
   try {
-    localStorage.setItem(STORAGE_KEYS.PRIVATE_KEY, privateKey)
+    await deleteAvatar(adapter, identityNamespace(), avatarHash)
+  } catch (error) {
+    console.error('Failed to clear avatar:', error)
+  }
+}
+
+/**
+ * Check if a profile with this DID is stored, so a key written for it replaces the one it was created with
+ */
+async function isStoredProfile(adapter: StorageAdapter, did: string): Promise<boolean> {
+  return (await readProfiles(adapter)).some((profile) => profile.did === did)
+}
+
+/**
+ * Get the active profile from storage
+ */
+export async function getProfile(): Promise<StoredProfile | null> {
+  const activeDid = await getActiveProfileDid()
+  if (!activeDid) {
+    return null
+  }
+
+  const profiles = await getProfiles()
+  return profiles.find((profile) => profile.did === activeDid) ?? null
+}
+
+/**
+ * Get the active profile, letting storage errors through
+ * getProfile() logs them and returns null, which reads the same as having no profile
+ * @throws Error (or StorageError) if profile storage cannot be read
+ */
+export async function readActiveProfile(): Promise<StoredProfile | null> {
+  const adapter = await getAdapter()
+  const activeDid = await adapter.get(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))
+  if (!activeDid) {
+    return null
+  }
+
+  const profiles = await loadProfiles(adapter)
+  return profiles.find((profile) => profile.did === activeDid) ?? null
+}
+
+/**
+ * Save a profile's private key to storage
+ * @param did - Profile the key belongs to (default: the active profile)
+ */
+export async function savePrivateKey(privateKey: string, did?: string): Promise<void> {
+  try {
+    const profileDid = did ?? (await getActiveProfileDid())
+    if (!profileDid) {
+      throw new Error('No profile to save the private key for')
+    }
+
+    const adapter = await getAdapter()
+    const key = profileKey(scopedKey(STORAGE_KEYS.PRIVATE_KEY), profileDid)
+    // Writing the key a profile already has (e.g. recovering it from its phrase) is not a rotation
+    const isRotation = (await isStoredProfile(adapter, profileDid)) && (await adapter.get(key)) !== privateKey
+    await adapter.set(key, privateKey)
+
+    if (isRotation) {
+      emitProfileChange('key-rotated', profileDid)
+    }
   } catch (error) {
     console.error('Failed to save private key:', error)
-    throw new Error('Failed to save private key to LocalStorage')
+    throw new Error('Failed to save private key to storage')
   }
 }
 
 /**
- * Get private key from LocalStorage
+ * Get a profile's private key from storage
+ * @param did - Profile the key belongs to (default: the active profile)
  */
-export function getPrivateKey(): string | null {
+export async function getPrivateKey(did?: string): Promise<string | null> {
   try {
-    return localStorage.getItem(STORAGE_KEYS.PRIVATE_KEY)
+    const profileDid = did ?? (await getActiveProfileDid())
+    if (!profileDid) {
+      return null
+    }
+
+    const adapter = await getAdapter()
+    return await adapter.get(profileKey(scopedKey(STORAGE_KEYS.PRIVATE_KEY), profileDid))
   } catch (error) {
     console.error('Failed to get private key:', error)
     return null
@@ -63,20 +449,155 @@ export function getPrivateKey(): string | null {
 }
 
 /**
- * Clear all stored profile data
+ * Save a profile's held credentials (VC-JWTs) to storage
+ * @param did - Profile holding the credentials (default: the active profile)
  */
-export function clearProfile(): void {
+export async function saveCredentials(credentials: string[], did?: string): Promise<void> {
   try {
-    localStorage.removeItem(STORAGE_KEYS.PROFILE)
-    localStorage.removeItem(STORAGE_KEYS.PRIVATE_KEY)
+    const profileDid = did ?? (await getActiveProfileDid())
+    if (!profileDid) {
+      throw new Error('No profile to save the credentials for')
+    }
+
+    const adapter = await getAdapter()
+    await adapter.set(profileKey(scopedKey(STORAGE_KEYS.CREDENTIALS), profileDid), JSON.stringify(credentials))
+  } catch (error) {
+    console.error('Failed to save credentials:', error)
+    throw new Error('Failed to save credentials to storage')
+  }
+}
+
+/**
+ * Get a profile's held credentials (VC-JWTs) from storage
+ * @param did - Profile holding the credentials (default: the active profile)
+ */
+export async function getCredentials(did?: string): Promise<string[]> {
+  try {
+    const profileDid = did ?? (await getActiveProfileDid())
+    if (!profileDid) {
+      return []
+    }
+
+    const adapter = await getAdapter()
+    const key = profileKey(scopedKey(STORAGE_KEYS.CREDENTIALS), profileDid)
+    const credentialsString = await adapter.get(key)
+    if (!credentialsString) {
+      return []
+    }
+
+    let credentials: unknown
+    try {
+      credentials = JSON.parse(credentialsString)
+    } catch {
+      credentials = null
+    }
+
+    if (!Array.isArray(credentials)) {
+      await quarantineRecord(adapter, key, credentialsString, 'not a credential list')
+      await adapter.remove(key)
+      return []
+    }
+
+    return credentials.filter((jwt): jwt is string => typeof jwt === 'string')
+  } catch (error) {
+    console.error('Failed to get credentials:', error)
+    return []
+  }
+}
+
+/**
+ * Save a profile's WebCrypto keypair to IndexedDB
+ * CryptoKeys are structured-cloneable, so the private key stays non-extractable
+ */
+export async function saveSigningKey(keyPair: CryptoKeyPair, did: string): Promise<void> {
+  try {
+    const isRotation = await isStoredProfile(await getAdapter(), did)
+    await idbSet('keys', profileKey(scopedKey(STORAGE_KEYS.SIGNING_KEY), did), keyPair)
+
+    if (isRotation) {
+      emitProfileChange('key-rotated', did)
+    }
+  } catch (error) {
+    console.error('Failed to save signing key:', error)
+    throw new Error('Failed to save signing key to IndexedDB')
+  }
+}
+
+/**
+ * Get a profile's WebCrypto keypair from IndexedDB
+ */
+export async function getSigningKey(did: string): Promise<CryptoKeyPair | null> {
+  try {
+    // Make sure a version 1 key has been moved to its per-profile entry
+    await getAdapter()
+    return await idbGet<CryptoKeyPair>('keys', profileKey(scopedKey(STORAGE_KEYS.SIGNING_KEY), did))
+  } catch (error) {
+    console.error('Failed to get signing key:', error)
+    return null
+  }
+}
+
+/**
+ * Remove one profile and its keys and credentials
+ * If it was active, no profile is active afterwards
+ */
+export async function removeStoredProfile(did: string): Promise<void> {
+  const adapter = await getAdapter()
+  const profiles = await readProfiles(adapter)
+
+  const remainingProfiles = profiles.filter((profile) => profile.did !== did)
+
+  // Remove the profile first so the remaining keys are unreachable if a later removal fails
+  await adapter.set(scopedKey(STORAGE_KEYS.PROFILES), encodeProfilesRecord(remainingProfiles))
+  if ((await adapter.get(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))) === did) {
+    await adapter.remove(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))
+  }
+
+  await adapter.remove(profileKey(scopedKey(STORAGE_KEYS.PRIVATE_KEY), did))
+  await adapter.remove(profileKey(scopedKey(STORAGE_KEYS.CREDENTIALS), did))
+
+  if (isIndexedDBAvailable()) {
+    try {
+      await idbDelete('keys', profileKey(scopedKey(STORAGE_KEYS.SIGNING_KEY), did))
+    } catch (error) {
+      console.error('Failed to clear signing key:', error)
+    }
+  }
+
+  const removedProfile = profiles.find((profile) => profile.did === did)
+  if (removedProfile) {
+    await releaseAvatar(adapter, removedProfile.avatarHash, remainingProfiles)
+    emitProfileChange('cleared', did)
+  }
+}
+
+/**
+ * Clear all stored profile data (every profile on this device)
+ */
+export async function clearProfile(): Promise<void> {
+  try {
+    const adapter = await getAdapter()
+    for (const profile of await readProfiles(adapter)) {
+      await removeStoredProfile(profile.did)
+    }
+
+    await adapter.remove(scopedKey(STORAGE_KEYS.PROFILES))
+    await adapter.remove(scopedKey(STORAGE_KEYS.ACTIVE_PROFILE))
   } catch (error) {
     console.error('Failed to clear profile:', error)
   }
 }
 
 /**
- * Check if a profile exists in storage
+ * Check if an active profile exists in storage
+ * Profiles with a WebCrypto key keep it in IndexedDB instead of the storage adapter
  */
-export function hasProfile(): boolean {
-  return getProfile() !== null && getPrivateKey() !== null
+export async function hasProfile(): Promise<boolean> {
+  const profile = await getProfile()
+
+  if (!profile) {
+    return false
+  }
+
+  return profile.keyBackend === 'webcrypto' || (await getPrivateKey(profile.did)) !== null
 }
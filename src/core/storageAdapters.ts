@@ -0,0 +1,108 @@
+/**
+ * Built-in storage adapters for profile data
+ * Pick one with configureStorage(); LocalStorage is the default
+ */
+
+import type { StorageAdapter, StorageChangeListener } from '../types'
+import { idbDelete, idbGet, idbSet } from './idb'
+
+/**
+ * Adapter over a Web Storage area (LocalStorage or SessionStorage)
+ * The area is looked up on every call, so constructing one is safe during SSR
+ */
+abstract class WebStorageAdapter implements StorageAdapter {
+  protected abstract getStorage(): Storage
+
+  async get(key: string): Promise<string | null> {
+    return this.getStorage().getItem(key)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.getStorage().setItem(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this.getStorage().removeItem(key)
+  }
+
+  /**
+   * Listen for changes made by other tabs (the browser's `storage` event)
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    if (typeof window === 'undefined') {
+      return () => {}
+    }
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea === this.getStorage()) {
+        listener(e.key)
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+      window.removeEventListener('storage', handleStorage)
+    }
+  }
+}
+
+/**
+ * Keeps profile data in LocalStorage (default)
+ */
+export class LocalStorageAdapter extends WebStorageAdapter {
+  protected getStorage(): Storage {
+    return localStorage
+  }
+}
+
+/**
+ * Keeps profile data in SessionStorage, so it is gone when the tab closes
+ */
+export class SessionStorageAdapter extends WebStorageAdapter {
+  protected getStorage(): Storage {
+    return sessionStorage
+  }
+}
+
+/**
+ * Keeps profile data in IndexedDB
+ * Works where LocalStorage is blocked or too small (large avatars); has no cross-tab change events
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  async get(key: string): Promise<string | null> {
+    return idbGet<string>('profile', key)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await idbSet('profile', key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    await idbDelete('profile', key)
+  }
+}
+
+/**
+ * Keeps profile data in memory only
+ * For tests, servers and browsers where persistent storage is unavailable
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly entries: Map<string, string>
+
+  constructor(initialEntries: Record<string, string> = {}) {
+    this.entries = new Map(Object.entries(initialEntries))
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.set(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
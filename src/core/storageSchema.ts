@@ -0,0 +1,362 @@
+/**
+ * Versioned storage schema for profile data
+ * The profile list record carries a schemaVersion; older layouts are upgraded by the migrations below
+ * the first time a storage namespace is read, and corrupt records are quarantined instead of dropped.
+ *
+ * Schema history (keys shown for the `irl-onboarding` namespace):
+ * - 1: single profile in `:profile`, with `:privateKey`, `:credentials` and the IndexedDB `:signingKey`
+ * - 2: profile list array in `:profiles`, `:activeProfile`, and keys and credentials per DID
+ * - 3: the profile list wrapped in a `{ schemaVersion, profiles }` record
+ * - 4: avatars moved out of the record into avatar storage, referenced by `avatarHash`
+ * - 5: avatars kept per namespace; scopes with their own DID get a copy of the origin-wide avatars they use
+ */
+
+import type { StorageAdapter, StoredProfile } from '../types'
+import { StorageError } from './errors'
+import { idbDelete, idbGet, idbSet, isIndexedDBAvailable } from './idb'
+import { dataURLToBlob, putAvatar, readAvatar } from './avatarStore'
+
+/**
+ * Schema version written by this version of the library
+ */
+export const STORAGE_SCHEMA_VERSION = 5
+
+/**
+ * Profile list as written to storage from schema version 3
+ */
+interface StoredProfilesRecord {
+  schemaVersion: number
+  profiles: StoredProfile[]
+}
+
+/**
+ * One step in the schema history: upgrades a namespace from `version - 1` to `version`
+ * Must be safe to re-run if it is interrupted, since the version is only bumped by its last write
+ */
+interface StorageMigration {
+  version: number
+  description: string
+  migrate(adapter: StorageAdapter, namespace: string): Promise<void>
+}
+
+// Key names are frozen per schema version; migrations must not follow later renames
+const PROFILES = 'profiles'
+const ACTIVE_PROFILE = 'activeProfile'
+const PRIVATE_KEY = 'privateKey'
+const CREDENTIALS = 'credentials'
+const SIGNING_KEY = 'signingKey'
+const LEGACY_PROFILE = 'profile'
+
+// Before version 5 every namespace's avatars were stored where the origin's are
+const SHARED_AVATAR_NAMESPACE = 'irl-onboarding'
+
+const CORRUPT_SUFFIX = ':corrupt'
+
+function namespacedKey(namespace: string, ...parts: string[]): string {
+  return [namespace, ...parts].join(':')
+}
+
+/**
+ * Check that a stored value has the shape of a StoredProfile
+ */
+function isStoredProfile(value: unknown): value is StoredProfile {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const profile = value as Record<string, unknown>
+  return (
+    typeof profile.did === 'string' &&
+    profile.did.startsWith('did:key:') &&
+    typeof profile.name === 'string' &&
+    (profile.socials === undefined || Array.isArray(profile.socials)) &&
+    (profile.avatarHash === undefined || typeof profile.avatarHash === 'string') &&
+    // Inline avatars (before version 4) are still accepted from tabs running an older version
+    (profile.avatar === undefined || profile.avatar === null || typeof profile.avatar === 'string') &&
+    (profile.keyBackend === undefined || profile.keyBackend === 'local' || profile.keyBackend === 'webcrypto') &&
+    (profile.expiresAt === undefined || typeof profile.expiresAt === 'number')
+  )
+}
+
+/**
+ * Version 1 → 2: move the single profile into the profile list, with its key and credentials stored per DID
+ */
+async function migrateToProfileList(adapter: StorageAdapter, namespace: string): Promise<void> {
+  const legacyKey = namespacedKey(namespace, LEGACY_PROFILE)
+  const legacyProfileString = await adapter.get(legacyKey)
+  if (legacyProfileString === null) {
+    return
+  }
+
+  let profile: unknown
+  try {
+    profile = JSON.parse(legacyProfileString)
+  } catch {
+    profile = null
+  }
+
+  if (!isStoredProfile(profile)) {
+    // Keys are left in place: without the profile there is no DID to file them under
+    await quarantineRecord(adapter, legacyKey, legacyProfileString, 'legacy profile is not a valid profile')
+    await adapter.remove(legacyKey)
+    return
+  }
+
+  const privateKey = await adapter.get(namespacedKey(namespace, PRIVATE_KEY))
+  const credentials = await adapter.get(namespacedKey(namespace, CREDENTIALS))
+
+  if (privateKey !== null) {
+    await adapter.set(namespacedKey(namespace, PRIVATE_KEY, profile.did), privateKey)
+  }
+  if (credentials !== null) {
+    await adapter.set(namespacedKey(namespace, CREDENTIALS, profile.did), credentials)
+  }
+
+  if (profile.keyBackend === 'webcrypto' && isIndexedDBAvailable()) {
+    const keyPair = await idbGet<CryptoKeyPair>('keys', namespacedKey(namespace, SIGNING_KEY))
+    if (keyPair) {
+      await idbSet('keys', namespacedKey(namespace, SIGNING_KEY, profile.did), keyPair)
+      await idbDelete('keys', namespacedKey(namespace, SIGNING_KEY))
+    }
+  }
+
+  // Written last: until the profile list exists the namespace is still detected as version 1
+  await adapter.set(namespacedKey(namespace, ACTIVE_PROFILE), profile.did)
+  await adapter.set(namespacedKey(namespace, PROFILES), JSON.stringify([profile]))
+
+  await adapter.remove(legacyKey)
+  await adapter.remove(namespacedKey(namespace, PRIVATE_KEY))
+  await adapter.remove(namespacedKey(namespace, CREDENTIALS))
+}
+
+/**
+ * Version 2 → 3: wrap the profile list array in a versioned record
+ */
+async function migrateToVersionedRecord(adapter: StorageAdapter, namespace: string): Promise<void> {
+  const key = namespacedKey(namespace, PROFILES)
+  const profilesString = await adapter.get(key)
+  if (profilesString === null) {
+    return
+  }
+
+  const profiles = JSON.parse(profilesString)
+  if (!Array.isArray(profiles)) {
+    return
+  }
+
+  const record: StoredProfilesRecord = { schemaVersion: 3, profiles }
+  await adapter.set(key, JSON.stringify(record))
+}
+
+/**
+ * Version 3 → 4: move inline avatar data URLs out of the profile record into avatar storage
+ */
+async function migrateInlineAvatars(adapter: StorageAdapter, namespace: string): Promise<void> {
+  const key = namespacedKey(namespace, PROFILES)
+  const profilesString = await adapter.get(key)
+  if (profilesString === null) {
+    return
+  }
+
+  const record = JSON.parse(profilesString) as StoredProfilesRecord
+  if (!Array.isArray(record?.profiles)) {
+    return
+  }
+
+  const profiles: unknown[] = []
+  for (const entry of record.profiles as unknown[]) {
+    // Entries that are not profiles are left for readProfilesRecord() to recover
+    if (!entry || typeof entry !== 'object') {
+      profiles.push(entry)
+      continue
+    }
+
+    const { avatar, ...profile } = entry as StoredProfile & { avatar?: unknown }
+    if (typeof avatar === 'string' && avatar.startsWith('data:')) {
+      profile.avatarHash = await putAvatar(adapter, SHARED_AVATAR_NAMESPACE, dataURLToBlob(avatar))
+    }
+    profiles.push(profile)
+  }
+
+  await adapter.set(key, JSON.stringify({ schemaVersion: 4, profiles }))
+}
+
+/**
+ * Version 4 → 5: copy the avatars a namespace references from the shared avatar storage into its own
+ * The shared copy is left for the origin's profiles, which keep using it
+ */
+async function migrateAvatarsPerNamespace(adapter: StorageAdapter, namespace: string): Promise<void> {
+  const key = namespacedKey(namespace, PROFILES)
+  const profilesString = await adapter.get(key)
+  if (profilesString === null) {
+    return
+  }
+
+  const record = JSON.parse(profilesString) as StoredProfilesRecord
+  if (!Array.isArray(record?.profiles)) {
+    return
+  }
+
+  if (namespace !== SHARED_AVATAR_NAMESPACE) {
+    for (const entry of record.profiles as unknown[]) {
+      const avatarHash = (entry as Partial<StoredProfile> | null)?.avatarHash
+      if (typeof avatarHash !== 'string' || (await readAvatar(adapter, namespace, avatarHash))) {
+        continue
+      }
+
+      const avatar = await readAvatar(adapter, SHARED_AVATAR_NAMESPACE, avatarHash)
+      if (avatar) {
+        await putAvatar(adapter, namespace, avatar)
+      }
+    }
+  }
+
+  await adapter.set(key, JSON.stringify({ schemaVersion: 5, profiles: record.profiles }))
+}
+
+// Ordered by version; add a step here (and bump STORAGE_SCHEMA_VERSION) for every change to the stored shape
+const MIGRATIONS: StorageMigration[] = [
+  { version: 2, description: 'Single profile to profile list', migrate: migrateToProfileList },
+  { version: 3, description: 'Versioned profile list record', migrate: migrateToVersionedRecord },
+  { version: 4, description: 'Avatars in avatar storage', migrate: migrateInlineAvatars },
+  { version: 5, description: 'Avatars per namespace', migrate: migrateAvatarsPerNamespace },
+]
+
+/**
+ * Work out which schema version a namespace is stored in
+ * @returns The version, or null when the namespace holds no profile data
+ */
+async function detectSchemaVersion(adapter: StorageAdapter, namespace: string): Promise<number | null> {
+  const profilesString = await adapter.get(namespacedKey(namespace, PROFILES))
+
+  if (profilesString !== null) {
+    try {
+      const parsed = JSON.parse(profilesString)
+      if (Array.isArray(parsed)) {
+        return 2
+      }
+      if (parsed && typeof parsed === 'object' && Number.isInteger(parsed.schemaVersion)) {
+        return parsed.schemaVersion
+      }
+    } catch {
+      // Unreadable records are recovered when the profile list is read
+    }
+    return STORAGE_SCHEMA_VERSION
+  }
+
+  if ((await adapter.get(namespacedKey(namespace, LEGACY_PROFILE))) !== null) {
+    return 1
+  }
+
+  return null
+}
+
+/**
+ * Upgrade a storage namespace to the current schema version
+ *
+ * @param adapter - Adapter the namespace is stored in
+ * @param namespace - Key prefix, e.g. 'irl-onboarding' or 'irl-onboarding@/venue-b'
+ * @throws StorageError if a migration fails
+ */
+export async function migrateStorage(adapter: StorageAdapter, namespace: string): Promise<void> {
+  const storedVersion = await detectSchemaVersion(adapter, namespace)
+  if (storedVersion === null || storedVersion >= STORAGE_SCHEMA_VERSION) {
+    return
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion) {
+      continue
+    }
+
+    try {
+      await migration.migrate(adapter, namespace)
+    } catch (error) {
+      console.error('Storage migration failed:', { namespace, version: migration.version, error })
+      throw new StorageError(
+        'STORAGE_MIGRATION_FAILED',
+        `Failed to upgrade profile storage to version ${migration.version} (${migration.description})`
+      )
+    }
+
+    console.log('Upgraded profile storage:', { namespace, version: migration.version })
+  }
+}
+
+/**
+ * Keep an unreadable value under `<key>:corrupt` so it can be inspected or recovered by hand
+ * Only the latest corrupt value per key is kept
+ */
+export async function quarantineRecord(
+  adapter: StorageAdapter,
+  key: string,
+  value: string,
+  reason: string
+): Promise<void> {
+  await adapter.set(`${key}${CORRUPT_SUFFIX}`, value)
+  console.warn('Quarantined corrupt profile storage record:', { key, reason })
+}
+
+/**
+ * Read a namespace's profile list
+ * A record that is not valid JSON is quarantined and treated as empty. Entries that are not valid
+ * profiles are dropped: the original record is quarantined and the valid entries are written back.
+ *
+ * @throws StorageError if the record was written by a newer schema version
+ */
+export async function readProfilesRecord(adapter: StorageAdapter, namespace: string): Promise<StoredProfile[]> {
+  const key = namespacedKey(namespace, PROFILES)
+  const profilesString = await adapter.get(key)
+  if (profilesString === null) {
+    return []
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(profilesString)
+  } catch {
+    await quarantineRecord(adapter, key, profilesString, 'not valid JSON')
+    await adapter.remove(key)
+    return []
+  }
+
+  // A tab still running a version 2 library may have written a bare array since the upgrade
+  let entries: unknown[]
+  if (Array.isArray(parsed)) {
+    entries = parsed
+  } else if (
+    parsed &&
+    typeof parsed === 'object' &&
+    Number.isInteger((parsed as StoredProfilesRecord).schemaVersion) &&
+    Array.isArray((parsed as StoredProfilesRecord).profiles)
+  ) {
+    const record = parsed as StoredProfilesRecord
+    if (record.schemaVersion > STORAGE_SCHEMA_VERSION) {
+      throw new StorageError(
+        'STORAGE_UNSUPPORTED_VERSION',
+        `Profile storage was written by a newer version (schema ${record.schemaVersion}, supported ${STORAGE_SCHEMA_VERSION})`
+      )
+    }
+    entries = record.profiles
+  } else {
+    await quarantineRecord(adapter, key, profilesString, 'not a profile list')
+    await adapter.remove(key)
+    return []
+  }
+
+  const profiles = entries.filter(isStoredProfile)
+  if (profiles.length !== entries.length) {
+    await quarantineRecord(adapter, key, profilesString, `${entries.length - profiles.length} invalid profile(s)`)
+    await adapter.set(key, encodeProfilesRecord(profiles))
+  }
+
+  return profiles
+}
+
+/**
+ * Serialize a profile list as a record of the current schema version
+ */
+export function encodeProfilesRecord(profiles: StoredProfile[]): string {
+  const record: StoredProfilesRecord = { schemaVersion: STORAGE_SCHEMA_VERSION, profiles }
+  return JSON.stringify(record)
+}
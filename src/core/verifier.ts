@@ -0,0 +1,102 @@
+/**
+ * Reusable JWT verifier for backends that check many tokens with the same options
+ * Caches each issuer DID's decoded public key. Signatures are checked with the same Ed25519 implementation
+ * as verifyAndDecodeJWT(), so both accept exactly the same tokens; signature checks dominate the cost either way.
+ */
+
+import type {
+  BatchVerificationResult,
+  CreateVerifierOptions,
+  JWTPayload,
+  JWTVerifier
+} from '../types'
+import { REQUIRED_JWT_CLAIMS, checkJWTClaims, checkKeyId, verifyParsedJWT } from './crypto'
+import { getPublicKeyFromDid } from './did'
+import { JWTVerificationError } from './errors'
+import { parseJWT } from './jwtParser'
+
+const DEFAULT_CACHE_SIZE = 1000
+
+/**
+ * Create a verifier with the given options and a DID key cache
+ *
+ * @param options - Expected audience, other verification options and the cache size
+ * @returns A verifier with verify() and verifyMany()
+ */
+export function createVerifier(options: CreateVerifierOptions): JWTVerifier {
+  const { cacheSize = DEFAULT_CACHE_SIZE, ...verifyOptions } = options
+
+  // Map insertion order tracks recency (least recently used first)
+  const keys = new Map<string, Uint8Array>()
+
+  const resolveKey = (did: string): Uint8Array => {
+    const cached = keys.get(did)
+    if (cached) {
+      keys.delete(did)
+      keys.set(did, cached)
+      return cached
+    }
+
+    let publicKey: Uint8Array
+    try {
+      publicKey = getPublicKeyFromDid(did)
+    } catch (error) {
+      throw new JWTVerificationError(
+        'JWT_INVALID_ISSUER',
+        `JWT issuer must be an Ed25519 did:key: ${error instanceof Error ? error.message : 'invalid DID'}`
+      )
+    }
+
+    keys.set(did, publicKey)
+
+    if (keys.size > cacheSize) {
+      keys.delete(keys.keys().next().value as string)
+    }
+
+    return publicKey
+  }
+
+  const verify = async (jwt: string): Promise<JWTPayload> => {
+    const parsed = parseJWT<JWTPayload>(jwt, { requiredClaims: REQUIRED_JWT_CLAIMS })
+    const { header, payload } = parsed
+
+    const publicKey = resolveKey(payload.iss)
+    checkKeyId(header, payload.iss)
+
+    if (!verifyParsedJWT(parsed, publicKey)) {
+      throw new JWTVerificationError('JWT_INVALID_SIGNATURE', 'JWT signature does not match issuer DID')
+    }
+
+    return checkJWTClaims(payload, verifyOptions)
+  }
+
+  const verifyMany = async (jwts: string[]): Promise<BatchVerificationResult[]> => {
+    const results: BatchVerificationResult[] = []
+
+    // In order, so a token repeated within the batch is caught by the replay cache
+    for (const jwt of jwts) {
+      try {
+        results.push({ valid: true, payload: await verify(jwt) })
+      } catch (error) {
+        // Anything else (e.g. a failing replay cache store) is not the token's fault
+        if (!(error instanceof JWTVerificationError)) {
+          throw error
+        }
+        results.push({ valid: false, error })
+      }
+    }
+
+    return results
+  }
+
+  return {
+    verify,
+    verifyMany,
+    get cacheSize() {
+      return keys.size
+    },
+    clearCache: () => {
+      keys.clear()
+    }
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Backup Profile Component
+ * Encrypts the current profile with a passphrase and downloads it as a file
+ */
+
+import React, { useState } from 'react'
+import type { BackupProfileProps } from '../../types'
+import { exportProfileBackup } from '../../core/backup'
+import { BackupError } from '../../core/errors'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+export function BackupProfile({ onComplete, onBack, customStyles = {} }: BackupProfileProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [pressedButton, setPressedButton] = useState<string | null>(null)
+
+  const {
+    primaryColor = '#403B51',
+    backgroundColor = '#ffffff',
+    textColor = '#403B51',
+    borderRadius = '12px',
+    fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    inputRadius = '8px',
+    mobileButtonPressScale = 0.95,
+    mobileTapHighlightColor = 'transparent',
+    useSafeAreaInsets = true
+  } = customStyles
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      return
+    }
+
+    if (passphrase !== confirmation) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    setError(null)
+    setIsExporting(true)
+
+    try {
+      const backup = await exportProfileBackup(passphrase)
+
+      // Trigger a file download
+      const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = 'irl-profile-backup.json'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      if (onComplete) {
+        onComplete()
+      }
+    } catch (err) {
+      console.error('Failed to export backup:', err)
+      setError(err instanceof BackupError ? err.message : 'Failed to create backup. Please try again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const isSubmitDisabled = !passphrase || !confirmation || isExporting
+
+  const styles = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: useSafeAreaInsets
+        ? 'calc(48px + env(safe-area-inset-top)) calc(20px + env(safe-area-inset-right)) calc(48px + env(safe-area-inset-bottom)) calc(20px + env(safe-area-inset-left))'
+        : '48px 20px',
+      backgroundColor,
+      fontFamily,
+      color: textColor,
+      minHeight: '100vh'
+    },
+    content: {
+      width: '100%',
+      maxWidth: '500px'
+    },
+    header: {
+      textAlign: 'center' as const,
+      marginBottom: '40px'
+    },
+    title: {
+      fontSize: '32px',
+      fontWeight: 'bold',
+      color: primaryColor,
+      marginBottom: '8px',
+      lineHeight: 1.2
+    },
+    subtitle: {
+      fontSize: '16px',
+      opacity: 0.7,
+      marginTop: '12px',
+      lineHeight: 1.5
+    },
+    form: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '24px'
+    },
+    inputGroup: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '8px'
+    },
+    label: {
+      fontSize: '14px',
+      fontWeight: '500',
+      paddingLeft: '4px',
+      opacity: 0.8
+    },
+    input: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      border: `2px solid ${error ? '#ff3b30' : 'rgba(0, 0, 0, 0.1)'}`,
+      borderRadius: inputRadius,
+      outline: 'none',
+      transition: 'border-color 0.2s',
+      fontFamily,
+      boxSizing: 'border-box' as const,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    errorText: {
+      fontSize: '12px',
+      color: '#ff3b30',
+      marginTop: '4px',
+      paddingLeft: '4px'
+    },
+    button: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: '#ffffff',
+      backgroundColor: primaryColor,
+      border: 'none',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      fontFamily,
+      marginTop: '16px',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    buttonSecondary: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'transparent',
+      border: 'none',
+      cursor: 'pointer',
+      opacity: 0.6,
+      fontFamily,
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    }
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.content}>
+        <div style={styles.header}>
+          <h1 style={styles.title}>Back up your profile</h1>
+          <p style={styles.subtitle}>
+            Choose a passphrase to encrypt your backup. You will need it to restore your profile on another device.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} style={styles.form}>
+          <div style={styles.inputGroup}>
+            <label style={styles.label}>Passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value)
+                if (error) setError(null)
+              }}
+              placeholder="At least 8 characters"
+              style={styles.input}
+              autoFocus
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div style={styles.inputGroup}>
+            <label style={styles.label}>Confirm passphrase</label>
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => {
+                setConfirmation(e.target.value)
+                if (error) setError(null)
+              }}
+              placeholder="Repeat your passphrase"
+              style={styles.input}
+              autoComplete="new-password"
+            />
+            {error && <div style={styles.errorText}>{error}</div>}
+          </div>
+
+          <button
+            type="submit"
+            style={{
+              ...styles.button,
+              transform: pressedButton === 'download' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+              opacity: isSubmitDisabled ? 0.5 : pressedButton === 'download' ? 0.9 : 1
+            }}
+            onTouchStart={() => setPressedButton('download')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+            disabled={isSubmitDisabled}
+          >
+            {isExporting ? 'Encrypting...' : 'Download Backup'}
+          </button>
+          {onBack && (
+            <button
+              type="button"
+              onClick={onBack}
+              style={{
+                ...styles.buttonSecondary,
+                transform: pressedButton === 'back' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+                opacity: pressedButton === 'back' ? 0.8 : 0.6
+              }}
+              onTouchStart={() => setPressedButton('back')}
+              onTouchEnd={() => setPressedButton(null)}
+              onTouchCancel={() => setPressedButton(null)}
+            >
+              Back
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 /**
  * Create Account Flow Component
- * Orchestrates the 3-step onboarding process
+ * Orchestrates the 3-step onboarding process (plus an optional recovery phrase step)
  */
 
 import React, { useState } from 'react'
@@ -8,22 +8,29 @@ import type { CreateAccountFlowProps, SocialLink } from '../../types'
 import { NameStep } from './NameStep'
 import { SocialsStep } from './SocialsStep'
 import { AvatarStep } from './AvatarStep'
+import { SeedPhraseStep } from './SeedPhraseStep'
 import { createProfile } from '../../core/profile'
+import { generateMnemonic } from '../../core/crypto'
 
 export function CreateAccountFlow({
   skipSocialStep = false,
   skipAvatarStep = false,
+  keyBackend,
+  showSeedPhraseStep = false,
+  ttl,
   onComplete,
   onBack,
   customStyles = {}
 }: CreateAccountFlowProps) {
-  const [step, setStep] = useState<'name' | 'socials' | 'avatar'>('name')
+  const [step, setStep] = useState<'name' | 'socials' | 'avatar' | 'seedPhrase'>('name')
   const [name, setName] = useState('')
   const [socials, setSocials] = useState<SocialLink[]>([])
+  const [avatar, setAvatar] = useState<string | null>(null)
+  const [mnemonic] = useState(() => (showSeedPhraseStep ? generateMnemonic() : null))
   const [isCreating, setIsCreating] = useState(false)
 
   // Calculate total steps based on skip parameters
-  const totalSteps = 3 - (skipSocialStep ? 1 : 0) - (skipAvatarStep ? 1 : 0)
+  const totalSteps = 3 - (skipSocialStep ? 1 : 0) - (skipAvatarStep ? 1 : 0) + (mnemonic ? 1 : 0)
 
   const handleNameNext = (enteredName: string) => {
     setName(enteredName)
@@ -32,7 +39,7 @@ export function CreateAccountFlow({
     if (skipSocialStep) {
       if (skipAvatarStep) {
         // Both steps skipped - create profile immediately
-        handleComplete(enteredName, [], null)
+        handleDetailsComplete(enteredName, [], null)
       } else {
         setStep('avatar')
       }
@@ -52,7 +59,7 @@ export function CreateAccountFlow({
 
     // Skip to completion if avatar step is disabled
     if (skipAvatarStep) {
-      handleComplete(name, selectedSocials, null)
+      handleDetailsComplete(name, selectedSocials, null)
     } else {
       setStep('avatar')
     }
@@ -70,10 +77,34 @@ export function CreateAccountFlow({
     }
   }
 
+  const handleSeedPhraseBack = () => {
+    if (!skipAvatarStep) {
+      setStep('avatar')
+    } else if (!skipSocialStep) {
+      setStep('socials')
+    } else {
+      setStep('name')
+    }
+  }
+
+  // Show the recovery phrase before creating the profile when enabled
+  const handleDetailsComplete = (
+    finalName: string,
+    finalSocials: SocialLink[],
+    finalAvatar: string | null
+  ) => {
+    if (mnemonic) {
+      setAvatar(finalAvatar)
+      setStep('seedPhrase')
+    } else {
+      handleComplete(finalName, finalSocials, finalAvatar)
+    }
+  }
+
   const handleComplete = async (
     finalName: string,
     finalSocials: SocialLink[],
-    avatar: string | null
+    finalAvatar: string | null
   ) => {
     setIsCreating(true)
 
@@ -82,7 +113,8 @@ export function CreateAccountFlow({
       const profile = await createProfile(
         finalName,
         finalSocials.length > 0 ? finalSocials : undefined,
-        avatar
+        finalAvatar,
+        { keyBackend, mnemonic: mnemonic ?? undefined, ttl }
       )
 
       // Call onComplete callback if provided
@@ -161,10 +193,23 @@ export function CreateAccountFlow({
         <AvatarStep
           name={name}
           socials={socials}
-          onComplete={(avatar) => handleComplete(name, socials, avatar)}
+          onComplete={(selectedAvatar) => handleDetailsComplete(name, socials, selectedAvatar)}
           onBack={handleAvatarBack}
           currentStep={skipSocialStep ? 2 : 3}
           totalSteps={totalSteps}
+          initialValue={avatar}
+          customStyles={customStyles}
+        />
+      )
+
+    case 'seedPhrase':
+      return (
+        <SeedPhraseStep
+          mnemonic={mnemonic as string}
+          onComplete={() => handleComplete(name, socials, avatar)}
+          onBack={handleSeedPhraseBack}
+          currentStep={totalSteps}
+          totalSteps={totalSteps}
           customStyles={customStyles}
         />
       )
@@ -3,27 +3,80 @@
  * Main wrapper component that handles different modes
  */
 
-import React, { useState } from 'react'
+import React, { useState, useEffect, useLayoutEffect } from 'react'
 import type { IrlOnboardingProps } from '../../types'
 import { DownloadPrompt } from './DownloadPrompt'
 import { CreateAccountFlow } from './CreateAccountFlow'
+import { RestoreProfile } from './RestoreProfile'
 import { DownloadBadges } from './DownloadBadges'
 import { usePressState } from '../hooks/usePressState'
+import { configureStorage, getStorageAdapter, onExpire as onProfileExpire } from '../../core/storage'
+import { configureScope, getScope } from '../../core/scope'
+import { configureClose } from '../../core/api'
+import { profileStore } from '../hooks/profileStore'
+
+// Layout effects run before the children's effects read storage; they do not run on the server
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect
 
 export function IrlOnboarding({
   mode = 'choice',
   skipSocialStep = false,
   skipAvatarStep = false,
+  keyBackend,
+  showSeedPhraseStep = false,
+  ttl,
+  onExpire,
+  showRestoreOption = false,
+  storage,
+  scope,
+  closeBehavior,
   customStyles = {},
   onComplete,
   children
 }: IrlOnboardingProps) {
-  const [selectedMode, setSelectedMode] = useState<'download' | 'create' | null>(
+  const [selectedMode, setSelectedMode] = useState<'download' | 'create' | 'restore' | null>(
     mode === 'choice' ? null : 'download'
   )
 
   const { pressedElement, handlePressStart, handlePressEnd } = usePressState()
 
+  // Select the adapter before any step reads or writes the profile. Configured only when the instance
+  // changes: each new adapter is upgraded to the current schema, and a new MemoryStorageAdapter is empty
+  useIsomorphicLayoutEffect(() => {
+    if (!storage || storage === getStorageAdapter()) return
+
+    configureStorage(storage)
+    profileStore.refresh()
+  }, [storage])
+
+  // Compared by value, so an inline { path, separateDid } object does not reconfigure on every render
+  const scopePath = typeof scope === 'string' ? scope : scope?.path
+  const scopeSeparateDid = typeof scope === 'object' ? scope.separateDid : undefined
+
+  useIsomorphicLayoutEffect(() => {
+    if (scopePath === undefined) return
+
+    const previousScope = getScope()
+    configureScope({ path: scopePath, separateDid: scopeSeparateDid })
+    profileStore.refresh()
+
+    return () => {
+      configureScope(previousScope)
+      profileStore.refresh()
+    }
+  }, [scopePath, scopeSeparateDid])
+
+  useEffect(() => {
+    if (closeBehavior) {
+      configureClose(closeBehavior)
+    }
+  }, [closeBehavior])
+
+  useEffect(() => {
+    if (!onExpire) return
+    return onProfileExpire(onExpire)
+  }, [onExpire])
+
   const {
     primaryColor = '#403B51',
     backgroundColor = '#ffffff',
@@ -128,6 +181,18 @@ export function IrlOnboarding({
         fontSize: '14px',
         textTransform: 'uppercase' as const,
         letterSpacing: '0.5px'
+      },
+      buttonLink: {
+        padding: '8px',
+        fontSize: '14px',
+        color: textColor,
+        backgroundColor: 'transparent',
+        border: 'none',
+        cursor: 'pointer',
+        opacity: 0.6,
+        textDecoration: 'underline',
+        fontFamily,
+        WebkitTapHighlightColor: mobileTapHighlightColor
       }
     }
 
@@ -184,6 +249,12 @@ export function IrlOnboarding({
             >
               Create Temporary Account
             </button>
+
+            {showRestoreOption && (
+              <button onClick={() => setSelectedMode('restore')} style={styles.buttonLink}>
+                Restore from backup
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -205,6 +276,9 @@ export function IrlOnboarding({
       <CreateAccountFlow
         skipSocialStep={skipSocialStep}
         skipAvatarStep={skipAvatarStep}
+        keyBackend={keyBackend}
+        showSeedPhraseStep={showSeedPhraseStep}
+        ttl={ttl}
         onComplete={onComplete}
         onBack={mode === 'choice' ? handleBackToChoice : undefined}
         customStyles={customStyles}
@@ -212,6 +286,17 @@ export function IrlOnboarding({
     )
   }
 
+  // Render restore from backup mode
+  if (selectedMode === 'restore') {
+    return (
+      <RestoreProfile
+        onRestore={onComplete}
+        onBack={() => setSelectedMode(null)}
+        customStyles={customStyles}
+      />
+    )
+  }
+
   // Render children if provided (for custom layouts)
   return <>{children}</>
 }
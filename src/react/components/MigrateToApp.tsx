@@ -0,0 +1,228 @@
+/**
+ * Migrate To App Component
+ * Shows a QR code that moves the web profile into the Antler app
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import type { MigrateToAppProps, MigrationBundle } from '../../types'
+import { createMigrationBundle } from '../../core/migration'
+import { encodeQRCode, getQRCodeSvgPath } from '../../utils/qrcode'
+
+const QR_MARGIN = 4
+
+export function MigrateToApp({
+  nonce,
+  includePrivateKey = false,
+  expiresIn,
+  onBack,
+  customStyles = {}
+}: MigrateToAppProps) {
+  const [bundle, setBundle] = useState<MigrationBundle | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const [pressedButton, setPressedButton] = useState<string | null>(null)
+
+  const {
+    primaryColor = '#403B51',
+    backgroundColor = '#ffffff',
+    textColor = '#403B51',
+    borderRadius = '12px',
+    fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    mobileButtonPressScale = 0.95,
+    mobileTapHighlightColor = 'transparent',
+    useSafeAreaInsets = true
+  } = customStyles
+
+  const generateBundle = async () => {
+    setError(null)
+    try {
+      setBundle(await createMigrationBundle({ nonce, includePrivateKey, expiresIn }))
+    } catch (err) {
+      console.error('Failed to create migration bundle:', err)
+      setError('Failed to create migration code. Please try again.')
+    }
+  }
+
+  useEffect(() => {
+    generateBundle()
+  }, [nonce, includePrivateKey, expiresIn])
+
+  // Count down until the bundle expires
+  useEffect(() => {
+    if (!bundle) return
+
+    const updateSecondsLeft = () => {
+      setSecondsLeft(Math.max(0, bundle.expiresAt - Math.floor(Date.now() / 1000)))
+    }
+
+    updateSecondsLeft()
+    const interval = setInterval(updateSecondsLeft, 1000)
+
+    return () => {
+      clearInterval(interval)
+    }
+  }, [bundle])
+
+  const qrCode = useMemo(
+    () => (bundle ? encodeQRCode(bundle.uri, { errorCorrectionLevel: 'M' }) : null),
+    [bundle]
+  )
+
+  const isExpired = !!bundle && secondsLeft === 0
+
+  const styles = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: useSafeAreaInsets
+        ? 'calc(48px + env(safe-area-inset-top)) calc(20px + env(safe-area-inset-right)) calc(48px + env(safe-area-inset-bottom)) calc(20px + env(safe-area-inset-left))'
+        : '48px 20px',
+      backgroundColor,
+      fontFamily,
+      color: textColor,
+      minHeight: '100vh'
+    },
+    content: {
+      textAlign: 'center' as const,
+      width: '100%',
+      maxWidth: '500px'
+    },
+    title: {
+      fontSize: '32px',
+      fontWeight: 'bold',
+      color: primaryColor,
+      marginBottom: '8px',
+      lineHeight: 1.2
+    },
+    subtitle: {
+      fontSize: '16px',
+      opacity: 0.7,
+      marginTop: '12px',
+      marginBottom: '32px',
+      lineHeight: 1.5
+    },
+    qrContainer: {
+      display: 'flex',
+      justifyContent: 'center',
+      marginBottom: '16px'
+    },
+    qrCode: {
+      width: '100%',
+      maxWidth: '320px',
+      height: 'auto',
+      borderRadius,
+      boxShadow: '0 8px 24px rgba(0, 0, 0, 0.12)',
+      opacity: isExpired ? 0.2 : 1
+    },
+    status: {
+      fontSize: '14px',
+      opacity: 0.6,
+      marginBottom: '24px'
+    },
+    errorText: {
+      fontSize: '14px',
+      color: '#ff3b30',
+      marginBottom: '24px'
+    },
+    button: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: '#ffffff',
+      backgroundColor: primaryColor,
+      border: 'none',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      fontFamily,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    buttonSecondary: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'transparent',
+      border: 'none',
+      cursor: 'pointer',
+      opacity: 0.6,
+      fontFamily,
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    }
+  }
+
+  const viewBoxSize = qrCode ? qrCode.size + QR_MARGIN * 2 : 0
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = String(secondsLeft % 60).padStart(2, '0')
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.content}>
+        <h1 style={styles.title}>Move to Antler app</h1>
+        <p style={styles.subtitle}>
+          Open the Antler app on your phone and scan this code to keep your profile.
+        </p>
+
+        {error && <div style={styles.errorText}>{error}</div>}
+
+        {qrCode && (
+          <div style={styles.qrContainer}>
+            <svg
+              viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+              style={styles.qrCode}
+              shapeRendering="crispEdges"
+              role="img"
+              aria-label="Profile migration QR code"
+            >
+              <rect width={viewBoxSize} height={viewBoxSize} fill="#ffffff" />
+              <path d={getQRCodeSvgPath(qrCode, QR_MARGIN)} fill="#000000" />
+            </svg>
+          </div>
+        )}
+
+        {bundle && !isExpired && (
+          <div style={styles.status}>
+            Code expires in {minutes}:{seconds}
+            {bundle.method === 'key' && ' · Contains your private key, only scan it yourself'}
+          </div>
+        )}
+
+        {(isExpired || error) && (
+          <button
+            onClick={generateBundle}
+            style={{
+              ...styles.button,
+              transform: pressedButton === 'refresh' ? `scale(${mobileButtonPressScale})` : 'scale(1)'
+            }}
+            onTouchStart={() => setPressedButton('refresh')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+          >
+            Generate New Code
+          </button>
+        )}
+
+        {onBack && (
+          <button
+            onClick={onBack}
+            style={{
+              ...styles.buttonSecondary,
+              transform: pressedButton === 'back' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+              opacity: pressedButton === 'back' ? 0.8 : 0.6
+            }}
+            onTouchStart={() => setPressedButton('back')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+          >
+            Back
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,265 @@
+/**
+ * Profile Switcher Component
+ * Lists the profiles on this device, switches the active one and adds new ones
+ */
+
+import React, { useState, useSyncExternalStore } from 'react'
+import type { Profile, ProfileSwitcherProps } from '../../types'
+import { CreateAccountFlow } from './CreateAccountFlow'
+import { setActiveProfile } from '../../core/profile'
+import { getServerSnapshot, profileStore } from '../hooks/profileStore'
+import { useAvatar } from '../hooks/useAvatar'
+
+/**
+ * Avatar that is loaded from storage once its row is rendered
+ */
+function ProfileAvatar({ avatarHash, imageStyle }: { avatarHash?: string; imageStyle: React.CSSProperties }) {
+  const avatarUrl = useAvatar(avatarHash)
+
+  return avatarUrl ? <img src={avatarUrl} alt="" style={imageStyle} /> : <>👤</>
+}
+
+export function ProfileSwitcher({
+  onSelect,
+  onCreate,
+  skipSocialStep,
+  skipAvatarStep,
+  keyBackend,
+  showSeedPhraseStep,
+  ttl,
+  onBack,
+  customStyles = {}
+}: ProfileSwitcherProps) {
+  const { profile: activeProfile, profiles } = useSyncExternalStore(
+    profileStore.subscribe,
+    profileStore.getSnapshot,
+    getServerSnapshot
+  )
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pressedButton, setPressedButton] = useState<string | null>(null)
+
+  const {
+    primaryColor = '#403B51',
+    backgroundColor = '#ffffff',
+    textColor = '#403B51',
+    borderRadius = '12px',
+    fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    mobileButtonPressScale = 0.95,
+    mobileTapHighlightColor = 'transparent',
+    useSafeAreaInsets = true
+  } = customStyles
+
+  const activeDid = activeProfile?.did ?? null
+
+  const handleSelect = async (did: string) => {
+    setError(null)
+    try {
+      const profile = await setActiveProfile(did)
+      onSelect?.(profile)
+    } catch (err) {
+      console.error('Failed to switch profile:', err)
+      setError('Failed to switch profile. Please try again.')
+    }
+  }
+
+  const handleCreate = (profile: Profile) => {
+    setIsCreating(false)
+    onCreate?.(profile)
+  }
+
+  if (isCreating) {
+    return (
+      <CreateAccountFlow
+        skipSocialStep={skipSocialStep}
+        skipAvatarStep={skipAvatarStep}
+        keyBackend={keyBackend}
+        showSeedPhraseStep={showSeedPhraseStep}
+        ttl={ttl}
+        onComplete={handleCreate}
+        onBack={() => setIsCreating(false)}
+        customStyles={customStyles}
+      />
+    )
+  }
+
+  const styles = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: useSafeAreaInsets
+        ? 'calc(48px + env(safe-area-inset-top)) calc(20px + env(safe-area-inset-right)) calc(48px + env(safe-area-inset-bottom)) calc(20px + env(safe-area-inset-left))'
+        : '48px 20px',
+      backgroundColor,
+      fontFamily,
+      color: textColor,
+      minHeight: '100vh'
+    },
+    content: {
+      width: '100%',
+      maxWidth: '500px'
+    },
+    title: {
+      fontSize: '32px',
+      fontWeight: 'bold',
+      color: primaryColor,
+      marginBottom: '32px',
+      lineHeight: 1.2,
+      textAlign: 'center' as const
+    },
+    list: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '12px',
+      marginBottom: '24px'
+    },
+    profileButton: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '16px',
+      width: '100%',
+      padding: '12px 16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'rgba(0, 0, 0, 0.05)',
+      border: '2px solid transparent',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      transition: 'transform 0.1s ease, border-color 0.2s',
+      fontFamily,
+      textAlign: 'left' as const,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    avatar: {
+      width: '48px',
+      height: '48px',
+      borderRadius: '24px',
+      overflow: 'hidden',
+      flexShrink: 0,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: '#f5f5f5',
+      fontSize: '24px'
+    },
+    avatarImage: {
+      width: '100%',
+      height: '100%',
+      objectFit: 'cover' as const
+    },
+    name: {
+      flex: 1,
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+      whiteSpace: 'nowrap' as const
+    },
+    activeLabel: {
+      fontSize: '13px',
+      fontWeight: '500',
+      opacity: 0.6
+    },
+    errorText: {
+      fontSize: '14px',
+      color: '#ff3b30',
+      marginBottom: '16px',
+      textAlign: 'center' as const
+    },
+    button: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: '#ffffff',
+      backgroundColor: primaryColor,
+      border: 'none',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      fontFamily,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    buttonSecondary: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'transparent',
+      border: 'none',
+      cursor: 'pointer',
+      opacity: 0.6,
+      fontFamily,
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    }
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.content}>
+        <h1 style={styles.title}>Choose a profile</h1>
+
+        {error && <div style={styles.errorText}>{error}</div>}
+
+        <div style={styles.list}>
+          {profiles.map((profile) => {
+            const isActive = profile.did === activeDid
+
+            return (
+              <button
+                key={profile.did}
+                onClick={() => handleSelect(profile.did)}
+                style={{
+                  ...styles.profileButton,
+                  borderColor: isActive ? primaryColor : 'transparent',
+                  transform: pressedButton === profile.did ? `scale(${mobileButtonPressScale})` : 'scale(1)'
+                }}
+                onTouchStart={() => setPressedButton(profile.did)}
+                onTouchEnd={() => setPressedButton(null)}
+                onTouchCancel={() => setPressedButton(null)}
+              >
+                <div style={styles.avatar}>
+                  <ProfileAvatar avatarHash={profile.avatarHash} imageStyle={styles.avatarImage} />
+                </div>
+                <span style={styles.name}>{profile.name}</span>
+                {isActive && <span style={styles.activeLabel}>Active</span>}
+              </button>
+            )
+          })}
+        </div>
+
+        <button
+          onClick={() => setIsCreating(true)}
+          style={{
+            ...styles.button,
+            transform: pressedButton === 'add' ? `scale(${mobileButtonPressScale})` : 'scale(1)'
+          }}
+          onTouchStart={() => setPressedButton('add')}
+          onTouchEnd={() => setPressedButton(null)}
+          onTouchCancel={() => setPressedButton(null)}
+        >
+          Add Profile
+        </button>
+
+        {onBack && (
+          <button
+            onClick={onBack}
+            style={{
+              ...styles.buttonSecondary,
+              transform: pressedButton === 'back' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+              opacity: pressedButton === 'back' ? 0.8 : 0.6
+            }}
+            onTouchStart={() => setPressedButton('back')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+          >
+            Back
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
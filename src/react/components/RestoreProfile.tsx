@@ -0,0 +1,261 @@
+/**
+ * Restore Profile Component
+ * Restores a profile from an encrypted backup file
+ */
+
+import React, { useState, useRef } from 'react'
+import type { RestoreProfileProps } from '../../types'
+import { importProfileBackup } from '../../core/backup'
+import { BackupError } from '../../core/errors'
+
+export function RestoreProfile({ onRestore, onBack, customStyles = {} }: RestoreProfileProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [pressedButton, setPressedButton] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const {
+    primaryColor = '#403B51',
+    backgroundColor = '#ffffff',
+    textColor = '#403B51',
+    borderRadius = '12px',
+    fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    inputRadius = '8px',
+    mobileButtonPressScale = 0.95,
+    mobileTapHighlightColor = 'transparent',
+    useSafeAreaInsets = true
+  } = customStyles
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!file) {
+      setError('Please choose a backup file')
+      return
+    }
+
+    setError(null)
+    setIsRestoring(true)
+
+    try {
+      const backup = await file.text()
+      const profile = await importProfileBackup(backup, passphrase)
+
+      if (onRestore) {
+        onRestore(profile)
+      }
+    } catch (err) {
+      console.error('Failed to restore backup:', err)
+      setError(err instanceof BackupError ? err.message : 'Failed to restore backup. Please try again.')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const isSubmitDisabled = !file || !passphrase || isRestoring
+
+  const styles = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: useSafeAreaInsets
+        ? 'calc(48px + env(safe-area-inset-top)) calc(20px + env(safe-area-inset-right)) calc(48px + env(safe-area-inset-bottom)) calc(20px + env(safe-area-inset-left))'
+        : '48px 20px',
+      backgroundColor,
+      fontFamily,
+      color: textColor,
+      minHeight: '100vh'
+    },
+    content: {
+      width: '100%',
+      maxWidth: '500px'
+    },
+    header: {
+      textAlign: 'center' as const,
+      marginBottom: '40px'
+    },
+    title: {
+      fontSize: '32px',
+      fontWeight: 'bold',
+      color: primaryColor,
+      marginBottom: '8px',
+      lineHeight: 1.2
+    },
+    subtitle: {
+      fontSize: '16px',
+      opacity: 0.7,
+      marginTop: '12px',
+      lineHeight: 1.5
+    },
+    form: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '24px'
+    },
+    inputGroup: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '8px'
+    },
+    label: {
+      fontSize: '14px',
+      fontWeight: '500',
+      paddingLeft: '4px',
+      opacity: 0.8
+    },
+    input: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      border: `2px solid ${error ? '#ff3b30' : 'rgba(0, 0, 0, 0.1)'}`,
+      borderRadius: inputRadius,
+      outline: 'none',
+      transition: 'border-color 0.2s',
+      fontFamily,
+      boxSizing: 'border-box' as const,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    errorText: {
+      fontSize: '12px',
+      color: '#ff3b30',
+      marginTop: '4px',
+      paddingLeft: '4px'
+    },
+    fileButton: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'rgba(0, 0, 0, 0.05)',
+      border: 'none',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      fontFamily,
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+      whiteSpace: 'nowrap' as const,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    button: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: '#ffffff',
+      backgroundColor: primaryColor,
+      border: 'none',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      fontFamily,
+      marginTop: '16px',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    buttonSecondary: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'transparent',
+      border: 'none',
+      cursor: 'pointer',
+      opacity: 0.6,
+      fontFamily,
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    }
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.content}>
+        <div style={styles.header}>
+          <h1 style={styles.title}>Restore your profile</h1>
+          <p style={styles.subtitle}>Choose your backup file and enter the passphrase you used to create it.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} style={styles.form}>
+          <div style={styles.inputGroup}>
+            <label style={styles.label}>Backup file</label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null)
+                if (error) setError(null)
+              }}
+              style={{ display: 'none' }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              style={{
+                ...styles.fileButton,
+                transform: pressedButton === 'file' ? `scale(${mobileButtonPressScale})` : 'scale(1)'
+              }}
+              onTouchStart={() => setPressedButton('file')}
+              onTouchEnd={() => setPressedButton(null)}
+              onTouchCancel={() => setPressedButton(null)}
+            >
+              {file ? file.name : 'Choose File'}
+            </button>
+          </div>
+
+          <div style={styles.inputGroup}>
+            <label style={styles.label}>Passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value)
+                if (error) setError(null)
+              }}
+              placeholder="Enter your backup passphrase"
+              style={styles.input}
+              autoComplete="current-password"
+            />
+            {error && <div style={styles.errorText}>{error}</div>}
+          </div>
+
+          <button
+            type="submit"
+            style={{
+              ...styles.button,
+              transform: pressedButton === 'restore' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+              opacity: isSubmitDisabled ? 0.5 : pressedButton === 'restore' ? 0.9 : 1
+            }}
+            onTouchStart={() => setPressedButton('restore')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+            disabled={isSubmitDisabled}
+          >
+            {isRestoring ? 'Restoring...' : 'Restore Profile'}
+          </button>
+          {onBack && (
+            <button
+              type="button"
+              onClick={onBack}
+              style={{
+                ...styles.buttonSecondary,
+                transform: pressedButton === 'back' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+                opacity: pressedButton === 'back' ? 0.8 : 0.6
+              }}
+              onTouchStart={() => setPressedButton('back')}
+              onTouchEnd={() => setPressedButton(null)}
+              onTouchCancel={() => setPressedButton(null)}
+            >
+              Back
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
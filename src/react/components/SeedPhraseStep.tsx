@@ -0,0 +1,316 @@
+/**
+ * Seed Phrase Step Component
+ * Shows the BIP39 recovery phrase, then asks for a few of its words to confirm it was written down
+ */
+
+import React, { useState, useMemo } from 'react'
+import type { SeedPhraseStepProps } from '../../types'
+
+const CONFIRM_WORD_COUNT = 3
+
+/**
+ * Pick distinct random word positions (sorted) to ask for
+ */
+function pickConfirmPositions(wordCount: number): number[] {
+  const positions = Array.from({ length: wordCount }, (_, i) => i)
+  const values = new Uint32Array(wordCount)
+  crypto.getRandomValues(values)
+
+  // Fisher-Yates shuffle
+  for (let i = positions.length - 1; i > 0; i--) {
+    const j = values[i] % (i + 1)
+    ;[positions[i], positions[j]] = [positions[j], positions[i]]
+  }
+
+  return positions.slice(0, Math.min(CONFIRM_WORD_COUNT, wordCount)).sort((a, b) => a - b)
+}
+
+export function SeedPhraseStep({
+  mnemonic,
+  onComplete,
+  onBack,
+  currentStep,
+  totalSteps,
+  customStyles = {}
+}: SeedPhraseStepProps) {
+  const words = useMemo(() => mnemonic.trim().split(/\s+/), [mnemonic])
+  const confirmPositions = useMemo(() => pickConfirmPositions(words.length), [words])
+
+  const [phase, setPhase] = useState<'show' | 'confirm'>('show')
+  const [answers, setAnswers] = useState<Record<number, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [pressedButton, setPressedButton] = useState<string | null>(null)
+
+  const {
+    primaryColor = '#403B51',
+    backgroundColor = '#ffffff',
+    textColor = '#403B51',
+    borderRadius = '12px',
+    fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    inputRadius = '8px',
+    mobileButtonPressScale = 0.95,
+    mobileTapHighlightColor = 'transparent',
+    useSafeAreaInsets = true
+  } = customStyles
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const isCorrect = confirmPositions.every(
+      (position) => (answers[position] || '').trim().toLowerCase() === words[position]
+    )
+
+    if (!isCorrect) {
+      setError('Those words do not match your recovery phrase')
+      return
+    }
+
+    setError(null)
+    onComplete()
+  }
+
+  const handleBack = () => {
+    if (phase === 'confirm') {
+      setPhase('show')
+      setAnswers({})
+      setError(null)
+    } else {
+      onBack()
+    }
+  }
+
+  const isConfirmDisabled = confirmPositions.some((position) => !(answers[position] || '').trim())
+
+  const styles = {
+    container: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: useSafeAreaInsets
+        ? 'calc(48px + env(safe-area-inset-top)) calc(20px + env(safe-area-inset-right)) calc(48px + env(safe-area-inset-bottom)) calc(20px + env(safe-area-inset-left))'
+        : '48px 20px',
+      backgroundColor,
+      fontFamily,
+      color: textColor,
+      minHeight: '100vh'
+    },
+    content: {
+      width: '100%',
+      maxWidth: '500px'
+    },
+    header: {
+      textAlign: 'center' as const,
+      marginBottom: '32px'
+    },
+    title: {
+      fontSize: '32px',
+      fontWeight: 'bold',
+      color: primaryColor,
+      marginBottom: '8px',
+      lineHeight: 1.2
+    },
+    subtitle: {
+      fontSize: '16px',
+      opacity: 0.7,
+      marginTop: '12px',
+      lineHeight: 1.5
+    },
+    progress: {
+      fontSize: '14px',
+      opacity: 0.5,
+      marginBottom: '16px'
+    },
+    wordGrid: {
+      display: 'grid',
+      gridTemplateColumns: 'repeat(3, 1fr)',
+      gap: '8px',
+      marginBottom: '24px'
+    },
+    word: {
+      padding: '10px 8px',
+      fontSize: '15px',
+      border: '2px solid rgba(0, 0, 0, 0.1)',
+      borderRadius: inputRadius,
+      textAlign: 'left' as const,
+      userSelect: 'text' as const
+    },
+    wordIndex: {
+      opacity: 0.4,
+      marginRight: '6px',
+      fontSize: '12px'
+    },
+    form: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '24px'
+    },
+    inputGroup: {
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '8px'
+    },
+    label: {
+      fontSize: '14px',
+      fontWeight: '500',
+      paddingLeft: '4px',
+      opacity: 0.8
+    },
+    input: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      border: `2px solid ${error ? '#ff3b30' : 'rgba(0, 0, 0, 0.1)'}`,
+      borderRadius: inputRadius,
+      outline: 'none',
+      transition: 'border-color 0.2s',
+      fontFamily,
+      boxSizing: 'border-box' as const,
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    errorText: {
+      fontSize: '12px',
+      color: '#ff3b30',
+      marginTop: '4px',
+      paddingLeft: '4px'
+    },
+    button: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: '#ffffff',
+      backgroundColor: primaryColor,
+      border: 'none',
+      borderRadius: borderRadius,
+      cursor: 'pointer',
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      fontFamily,
+      marginTop: '16px',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    },
+    buttonSecondary: {
+      width: '100%',
+      padding: '16px',
+      fontSize: '16px',
+      fontWeight: '600',
+      color: textColor,
+      backgroundColor: 'transparent',
+      border: 'none',
+      cursor: 'pointer',
+      opacity: 0.6,
+      fontFamily,
+      transition: 'transform 0.1s ease, opacity 0.2s',
+      WebkitTapHighlightColor: mobileTapHighlightColor
+    }
+  }
+
+  const backButton = (
+    <button
+      type="button"
+      onClick={handleBack}
+      style={{
+        ...styles.buttonSecondary,
+        transform: pressedButton === 'back' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+        opacity: pressedButton === 'back' ? 0.8 : 0.6
+      }}
+      onTouchStart={() => setPressedButton('back')}
+      onTouchEnd={() => setPressedButton(null)}
+      onTouchCancel={() => setPressedButton(null)}
+    >
+      Back
+    </button>
+  )
+
+  if (phase === 'show') {
+    return (
+      <div style={styles.container}>
+        <div style={styles.content}>
+          <div style={styles.header}>
+            {totalSteps > 1 && <div style={styles.progress}>Step {currentStep} of {totalSteps}</div>}
+            <h1 style={styles.title}>Your recovery phrase</h1>
+            <p style={styles.subtitle}>
+              Write these {words.length} words down in order and keep them somewhere safe. Anyone with them can use your profile.
+            </p>
+          </div>
+
+          <div style={styles.wordGrid}>
+            {words.map((word, index) => (
+              <div key={index} style={styles.word}>
+                <span style={styles.wordIndex}>{index + 1}</span>
+                {word}
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setPhase('confirm')}
+            style={{
+              ...styles.button,
+              transform: pressedButton === 'next' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+              opacity: pressedButton === 'next' ? 0.9 : 1
+            }}
+            onTouchStart={() => setPressedButton('next')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+          >
+            I've Written It Down
+          </button>
+          {backButton}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.content}>
+        <div style={styles.header}>
+          {totalSteps > 1 && <div style={styles.progress}>Step {currentStep} of {totalSteps}</div>}
+          <h1 style={styles.title}>Confirm your phrase</h1>
+          <p style={styles.subtitle}>Enter the following words from your recovery phrase.</p>
+        </div>
+
+        <form onSubmit={handleConfirm} style={styles.form}>
+          {confirmPositions.map((position, index) => (
+            <div key={position} style={styles.inputGroup}>
+              <label style={styles.label}>Word #{position + 1}</label>
+              <input
+                type="text"
+                value={answers[position] || ''}
+                onChange={(e) => {
+                  setAnswers({ ...answers, [position]: e.target.value })
+                  if (error) setError(null)
+                }}
+                style={styles.input}
+                autoFocus={index === 0}
+                autoComplete="off"
+                autoCapitalize="none"
+                autoCorrect="off"
+                spellCheck={false}
+              />
+            </div>
+          ))}
+          {error && <div style={styles.errorText}>{error}</div>}
+
+          <button
+            type="submit"
+            style={{
+              ...styles.button,
+              transform: pressedButton === 'confirm' ? `scale(${mobileButtonPressScale})` : 'scale(1)',
+              opacity: isConfirmDisabled ? 0.5 : pressedButton === 'confirm' ? 0.9 : 1
+            }}
+            onTouchStart={() => setPressedButton('confirm')}
+            onTouchEnd={() => setPressedButton(null)}
+            onTouchCancel={() => setPressedButton(null)}
+            disabled={isConfirmDisabled}
+          >
+            Confirm
+          </button>
+          {backButton}
+        </form>
+      </div>
+    </div>
+  )
+}
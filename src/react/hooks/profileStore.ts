@@ -0,0 +1,19 @@
+/**
+ * Profile store shared by the React hooks and components, so every component renders the same snapshot
+ */
+
+import { createProfileStore } from '../../core/profileStore'
+import type { ProfileStoreState } from '../../types'
+
+export const profileStore = createProfileStore()
+
+// Server renders and hydration show the loading state; profiles are read once mounted in the browser
+const SERVER_SNAPSHOT: ProfileStoreState = {
+  profile: null,
+  profiles: [],
+  isLoading: true
+}
+
+export function getServerSnapshot(): ProfileStoreState {
+  return SERVER_SNAPSHOT
+}
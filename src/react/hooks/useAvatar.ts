@@ -0,0 +1,43 @@
+/**
+ * React hook for loading a profile's avatar
+ */
+
+import { useState, useEffect } from 'react'
+import { getAvatar } from '../../core/storage'
+
+/**
+ * Hook to load an avatar image from storage once it is rendered
+ *
+ * @param avatarHash - The profile's `avatarHash`; nothing is loaded when it is missing
+ * @returns An object URL for `<img src>`, or null while loading and for profiles without an avatar
+ */
+export function useAvatar(avatarHash: string | null | undefined): string | null {
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    setAvatarUrl(null)
+
+    if (!avatarHash) {
+      return
+    }
+
+    let isMounted = true
+    let objectUrl: string | null = null
+
+    getAvatar(avatarHash).then((avatar) => {
+      if (!isMounted || !avatar) return
+
+      objectUrl = URL.createObjectURL(avatar)
+      setAvatarUrl(objectUrl)
+    })
+
+    return () => {
+      isMounted = false
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl)
+      }
+    }
+  }, [avatarHash])
+
+  return avatarUrl
+}
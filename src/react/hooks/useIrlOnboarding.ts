@@ -2,10 +2,9 @@
  * React hook for IRL Browser onboarding
  */
 
-import { useState, useEffect } from 'react'
-import { getCurrentProfile } from '../../core/profile'
-import { hasProfile } from '../../core/storage'
+import { useState, useEffect, useSyncExternalStore } from 'react'
 import { hasIRLBrowserAPI } from '../../core/api'
+import { getServerSnapshot, profileStore } from './profileStore'
 import { isIRLBrowser } from '../../utils/deviceDetection'
 import type { Profile } from '../../types'
 
@@ -24,49 +23,37 @@ export interface UseIrlOnboardingReturn {
    * Loading state
    */
   isLoading: boolean
+
+  /**
+   * When the current temporary profile expires (seconds since epoch), or null if it is permanent
+   */
+  expiresAt: number | null
+
+  /**
+   * Seconds until the current temporary profile is wiped, or null if it is permanent
+   * Updates every second so apps can warn users before the account vanishes
+   */
+  timeRemaining: number | null
 }
 
 /**
  * Hook to check onboarding status and current profile
+ * Updates when a profile is created, updated, switched or cleared, in this tab or another
  */
 export function useIrlOnboarding(): UseIrlOnboardingReturn {
-  const [state, setState] = useState<UseIrlOnboardingReturn>({
-    shouldShowOnboarding: true,
-    profile: null,
-    isLoading: true
-  })
-
-  useEffect(() => {
-    // Check if running in browser
-    if (typeof window === 'undefined') {
-      setState({
-        shouldShowOnboarding: false,
-        profile: null,
-        isLoading: false
-      })
-      return
-    }
-
-    let isMounted = true
-
-    // Check IRL Browser status
-    const checkStatus = () => {
-      if (!isMounted) return
-
-      const isNative = isIRLBrowser()
-      const hasWeb = hasProfile() && hasIRLBrowserAPI()
-      const profile = getCurrentProfile()
+  const { profile, isLoading } = useSyncExternalStore(
+    profileStore.subscribe,
+    profileStore.getSnapshot,
+    getServerSnapshot
+  )
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null)
 
-      setState({
-        shouldShowOnboarding: !isNative && !hasWeb,
-        profile,
-        isLoading: false
-      })
-    }
+  const expiresAt = profile?.expiresAt ?? null
 
-    // Initial check
-    checkStatus()
+  // Onboarding is shown while loading, like before the first check
+  const shouldShowOnboarding = isLoading || (!isIRLBrowser() && !(profile !== null && hasIRLBrowserAPI()))
 
+  useEffect(() => {
     // If API doesn't exist yet, set up property detector to trigger when it's injected
     if (!('irlBrowser' in window)) {
       let value: any = undefined
@@ -77,17 +64,38 @@ export function useIrlOnboarding(): UseIrlOnboardingReturn {
         },
         set(newValue) {
           value = newValue
-          checkStatus() // Re-check when API is injected
+          profileStore.refresh() // Re-check when API is injected
         },
         configurable: true,
         enumerable: true
       })
     }
+  }, [])
+
+  // Count down until a temporary profile expires, then read it again so it is wiped
+  useEffect(() => {
+    if (expiresAt === null) {
+      setTimeRemaining(null)
+      return
+    }
+
+    const updateTimeRemaining = () => {
+      const remaining = Math.max(0, expiresAt - Math.floor(Date.now() / 1000))
+      setTimeRemaining(remaining)
+
+      if (remaining > 0) return
+
+      clearInterval(interval)
+      profileStore.refresh()
+    }
+
+    const interval = setInterval(updateTimeRemaining, 1000)
+    updateTimeRemaining()
 
     return () => {
-      isMounted = false
+      clearInterval(interval)
     }
-  }, [])
+  }, [expiresAt])
 
-  return state
+  return { shouldShowOnboarding, profile, isLoading, expiresAt, timeRemaining }
 }
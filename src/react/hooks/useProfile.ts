@@ -2,36 +2,16 @@
  * React hook for accessing current profile
  */
 
-import { useState, useEffect } from 'react'
-import { getCurrentProfile } from '../../core/profile'
+import { useSyncExternalStore } from 'react'
+import { getServerSnapshot, profileStore } from './profileStore'
 import type { Profile } from '../../types'
 
 /**
  * Hook to get the current profile
- * Updates when profile changes in storage
+ * Updates when a profile is created, updated, switched or cleared, in this tab or another
  */
 export function useProfile(): Profile | null {
-  const [profile, setProfile] = useState<Profile | null>(null)
-
-  useEffect(() => {
-    // Get initial profile
-    const currentProfile = getCurrentProfile()
-    setProfile(currentProfile)
-
-    // Listen for storage changes
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'irl-onboarding:profile' || e.key === null) {
-        const updatedProfile = getCurrentProfile()
-        setProfile(updatedProfile)
-      }
-    }
-
-    window.addEventListener('storage', handleStorageChange)
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange)
-    }
-  }, [])
+  const { profile } = useSyncExternalStore(profileStore.subscribe, profileStore.getSnapshot, getServerSnapshot)
 
   return profile
 }
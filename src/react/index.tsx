@@ -12,23 +12,52 @@ export { CreateAccountFlow } from './components/CreateAccountFlow'
 export { NameStep } from './components/NameStep'
 export { SocialsStep } from './components/SocialsStep'
 export { AvatarStep } from './components/AvatarStep'
+export { SeedPhraseStep } from './components/SeedPhraseStep'
+export { BackupProfile } from './components/BackupProfile'
+export { RestoreProfile } from './components/RestoreProfile'
+export { MigrateToApp } from './components/MigrateToApp'
+export { ProfileSwitcher } from './components/ProfileSwitcher'
 
 // Export React hooks
 export { useIrlOnboarding } from './hooks/useIrlOnboarding'
 export { useProfile } from './hooks/useProfile'
+export { useAvatar } from './hooks/useAvatar'
 
 // Re-export core utilities for convenience
 export {
   createProfile,
   getCurrentProfile,
-  updateProfile
+  updateProfile,
+  recoverProfileFromMnemonic,
+  listProfiles,
+  setActiveProfile,
+  removeProfile
 } from '../core/profile'
+export { onProfileChange } from '../core/profileEvents'
+export { createProfileStore } from '../core/profileStore'
 
 export {
   hasProfile,
-  clearProfile
+  clearProfile,
+  onExpire,
+  configureStorage,
+  getAvatar
 } from '../core/storage'
 
+export {
+  LocalStorageAdapter,
+  SessionStorageAdapter,
+  IndexedDBStorageAdapter,
+  MemoryStorageAdapter
+} from '../core/storageAdapters'
+
+export { configureScope } from '../core/scope'
+
+export {
+  exportProfileBackup,
+  importProfileBackup
+} from '../core/backup'
+
 export {
   isIRLBrowser,
   getPlatform
@@ -46,5 +75,11 @@ export {
 export {
   injectIRLBrowserAPI,
   removeIRLBrowserAPI,
-  hasIRLBrowserAPI
+  hasIRLBrowserAPI,
+  configureClose,
+  configurePermissions,
+  PROFILE_DISCONNECTED_TYPE,
+  IRL_ERROR_TYPE
 } from '../core/api'
+export { IrlBrowserError, IrlBrowserErrorCode, ManifestError } from '../core/errors'
+export { loadManifest, validateManifest } from '../core/manifest'
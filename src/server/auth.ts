@@ -0,0 +1,112 @@
+/**
+ * Framework-neutral request authentication
+ * Verifies the IRL Browser profile JWT sent as a Bearer token
+ */
+
+import type { AuthenticateRequestOptions, AuthenticatedUser, JWTPayload, Profile } from '../types'
+import { verifyAndDecodeJWT } from '../core/crypto'
+import { JWTVerificationError } from '../core/errors'
+import { AuthenticationError } from './errors'
+import type { AuthenticationErrorCode } from './errors'
+
+// Authorization schemes are case-insensitive (RFC 7235), so 'bearer' and 'BEARER' are accepted too
+const BEARER_PREFIX = /^bearer\s+/i
+
+/**
+ * Spec-style error body sent with 401 responses
+ */
+export interface AuthenticationErrorBody {
+  code: AuthenticationErrorCode
+  message: string
+}
+
+/**
+ * Authenticate a raw Authorization header value
+ * Useful for frameworks that do not expose Fetch API Request objects
+ *
+ * @param authorization - Value of the Authorization header (e.g. 'Bearer eyJ...')
+ * @param options - Expected audience and other verification options
+ * @returns The verified DID, profile details and JWT payload
+ * @throws AuthenticationError if the header is missing or the token is invalid
+ */
+export async function authenticateAuthorizationHeader(
+  authorization: string | null | undefined,
+  options: AuthenticateRequestOptions
+): Promise<AuthenticatedUser> {
+  if (!authorization) {
+    throw new AuthenticationError('MISSING_AUTHORIZATION', 'No token provided')
+  }
+
+  if (!BEARER_PREFIX.test(authorization)) {
+    throw new AuthenticationError('INVALID_AUTHORIZATION', 'Invalid authorization header')
+  }
+
+  const jwt = authorization.replace(BEARER_PREFIX, '').trim()
+  if (!jwt) {
+    throw new AuthenticationError('MISSING_AUTHORIZATION', 'No token provided')
+  }
+
+  let payload: JWTPayload
+  try {
+    payload = await verifyAndDecodeJWT(jwt, { ...options, type: 'irl:profile:details' })
+  } catch (error) {
+    if (error instanceof JWTVerificationError) {
+      throw new AuthenticationError(error.code, error.message)
+    }
+    throw error
+  }
+
+  // Profile details must describe the DID that signed them
+  const data = payload.data
+  if (!data || data.did !== payload.iss || typeof data.name !== 'string') {
+    throw new AuthenticationError('INVALID_PROFILE', 'JWT does not contain valid profile details')
+  }
+
+  const profile: Profile = {
+    did: data.did,
+    name: data.name,
+    socials: Array.isArray(data.socials) ? data.socials : []
+  }
+
+  return { did: payload.iss, profile, payload }
+}
+
+/**
+ * Authenticate a Fetch API Request (Bun, Deno, Cloudflare Workers, Next.js route handlers, ...)
+ *
+ * @param request - The incoming request
+ * @param options - Expected audience and other verification options
+ * @returns The verified DID, profile details and JWT payload
+ * @throws AuthenticationError if the request is not authenticated
+ */
+export async function authenticateRequest(
+  request: Request,
+  options: AuthenticateRequestOptions
+): Promise<AuthenticatedUser> {
+  return authenticateAuthorizationHeader(request.headers.get('authorization'), options)
+}
+
+/**
+ * Get the spec-style `{ code, message }` body for an authentication failure
+ * Errors other than AuthenticationError are reported without leaking details
+ */
+export function getAuthenticationErrorBody(error: unknown): AuthenticationErrorBody {
+  if (error instanceof AuthenticationError) {
+    return { code: error.code, message: error.message }
+  }
+
+  return { code: 'INVALID_AUTHORIZATION', message: 'Invalid JWT' }
+}
+
+/**
+ * Build a 401 Fetch API Response for an authentication failure
+ */
+export function createAuthenticationErrorResponse(error: unknown): Response {
+  return new Response(JSON.stringify(getAuthenticationErrorBody(error)), {
+    status: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': 'Bearer'
+    }
+  })
+}
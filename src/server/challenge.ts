@@ -0,0 +1,112 @@
+/**
+ * Challenge-response sign-in
+ * The backend issues a nonce, the mini app signs it with window.irlBrowser.signChallenge(),
+ * and the backend verifies the signed nonce to prove the user holds the DID's private key
+ */
+
+import type {
+  ChallengeStore,
+  IssueChallengeOptions,
+  IssuedChallenge,
+  JWTPayload,
+  VerifiedChallenge,
+  VerifyChallengeOptions
+} from '../types'
+import { base64url } from '../utils/encoding'
+import { generateRandomBytes, verifyAndDecodeJWT } from '../core/crypto'
+import { JWTVerificationError } from '../core/errors'
+import { AuthenticationError } from './errors'
+
+const NONCE_SIZE = 32 // Random bytes in each challenge nonce
+const DEFAULT_CHALLENGE_TTL = 300 // 5 minutes
+
+/**
+ * Challenge store that keeps nonces in memory
+ * Use a shared store (e.g. Redis) instead when running more than one server process
+ */
+export class InMemoryChallengeStore implements ChallengeStore {
+  private readonly nonces = new Map<string, number>()
+
+  save(nonce: string, expiresAt: number): void {
+    this.prune()
+    this.nonces.set(nonce, expiresAt)
+  }
+
+  consume(nonce: string): boolean {
+    const expiresAt = this.nonces.get(nonce)
+    this.nonces.delete(nonce)
+
+    return expiresAt !== undefined && expiresAt > Math.floor(Date.now() / 1000)
+  }
+
+  /**
+   * Drop nonces that expired without being used
+   */
+  private prune(): void {
+    const now = Math.floor(Date.now() / 1000)
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce)
+      }
+    }
+  }
+}
+
+/**
+ * Issue a new single-use challenge nonce
+ * Send the nonce to the mini app, which passes it to window.irlBrowser.signChallenge()
+ */
+export async function issueChallenge(options: IssueChallengeOptions): Promise<IssuedChallenge> {
+  const nonce = base64url.encode(generateRandomBytes(NONCE_SIZE))
+  const expiresAt = Math.floor(Date.now() / 1000) + (options.ttl ?? DEFAULT_CHALLENGE_TTL)
+
+  await options.store.save(nonce, expiresAt)
+
+  return { nonce, expiresAt }
+}
+
+/**
+ * Verify an `irl:auth:challenge` JWT and consume its nonce
+ *
+ * @param jwt - The JWT returned by window.irlBrowser.signChallenge()
+ * @param options - Expected audience, challenge store and optional context
+ * @returns The DID that signed the challenge
+ * @throws AuthenticationError if the token is invalid or the nonce was not issued, expired or already used
+ */
+export async function verifyChallenge(
+  jwt: string,
+  options: VerifyChallengeOptions
+): Promise<VerifiedChallenge> {
+  const { store, context, ...verifyOptions } = options
+
+  let payload: JWTPayload
+  try {
+    payload = await verifyAndDecodeJWT(jwt, { ...verifyOptions, type: 'irl:auth:challenge' })
+  } catch (error) {
+    if (error instanceof JWTVerificationError) {
+      throw new AuthenticationError(error.code, error.message)
+    }
+    throw error
+  }
+
+  const data = payload.data
+  if (!data || data.did !== payload.iss || typeof data.nonce !== 'string') {
+    throw new AuthenticationError('INVALID_CHALLENGE', 'JWT does not contain a valid challenge')
+  }
+
+  if (context !== undefined && data.context !== context) {
+    throw new AuthenticationError('CHALLENGE_CONTEXT_MISMATCH', 'Challenge was signed for a different context')
+  }
+
+  // Consume last so a bad signature cannot burn a legitimate user's nonce
+  if (!(await store.consume(data.nonce))) {
+    throw new AuthenticationError('INVALID_CHALLENGE', 'Challenge nonce is unknown, expired or already used')
+  }
+
+  return {
+    did: payload.iss,
+    nonce: data.nonce,
+    context: data.context,
+    payload
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Typed errors raised by the server helpers
+ */
+
+import type { JWTVerificationErrorCode } from '../core/errors'
+
+/**
+ * Reasons a request can fail authentication
+ * Includes every JWTVerificationErrorCode so token failures keep their original reason
+ */
+export type AuthenticationErrorCode =
+  | 'MISSING_AUTHORIZATION'
+  | 'INVALID_AUTHORIZATION'
+  | 'INVALID_PROFILE'
+  | 'INVALID_CHALLENGE'
+  | 'CHALLENGE_CONTEXT_MISMATCH'
+  | 'MISSING_REQUEST_SIGNATURE'
+  | 'REQUEST_SIGNATURE_MISMATCH'
+  | JWTVerificationErrorCode
+
+/**
+ * Error thrown when a request cannot be authenticated
+ * Always maps to an HTTP 401 response
+ */
+export class AuthenticationError extends Error {
+  readonly code: AuthenticationErrorCode
+  readonly status = 401
+
+  constructor(code: AuthenticationErrorCode, message: string) {
+    super(message)
+    this.name = 'AuthenticationError'
+    this.code = code
+  }
+}
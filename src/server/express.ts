@@ -0,0 +1,51 @@
+/**
+ * Express / Connect adapter
+ */
+
+import type { AuthenticateRequestOptions, AuthenticatedUser } from '../types'
+import { authenticateAuthorizationHeader, getAuthenticationErrorBody } from './auth'
+
+/**
+ * Minimal request shape shared by Express and Connect (Node IncomingMessage)
+ */
+export interface NodeRequestLike {
+  headers: Record<string, string | string[] | undefined>
+  irl?: AuthenticatedUser
+}
+
+/**
+ * Minimal response shape shared by Express and Connect (Node ServerResponse)
+ */
+export interface NodeResponseLike {
+  statusCode: number
+  setHeader(name: string, value: string): unknown
+  end(body?: string): unknown
+}
+
+/**
+ * Create an Express/Connect middleware that authenticates the Bearer token
+ * On success the verified user is available as `req.irl`; otherwise a 401 is sent
+ *
+ * @example
+ * app.post('/api/posts', createExpressMiddleware({ audience: 'https://example.app' }), (req, res) => {
+ *   db.posts.create({ authorId: req.irl.did })
+ * })
+ */
+export function createExpressMiddleware(options: AuthenticateRequestOptions) {
+  return (req: NodeRequestLike, res: NodeResponseLike, next: (error?: unknown) => void): void => {
+    const header = req.headers.authorization
+    const authorization = Array.isArray(header) ? header[0] : header
+
+    authenticateAuthorizationHeader(authorization, options)
+      .then((user) => {
+        req.irl = user
+        next()
+      })
+      .catch((error) => {
+        res.statusCode = 401
+        res.setHeader('Content-Type', 'application/json')
+        res.setHeader('WWW-Authenticate', 'Bearer')
+        res.end(JSON.stringify(getAuthenticationErrorBody(error)))
+      })
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Hono adapter
+ */
+
+import type { AuthenticateRequestOptions } from '../types'
+import { authenticateRequest, createAuthenticationErrorResponse } from './auth'
+
+/**
+ * Minimal Hono context shape used by the middleware
+ */
+export interface HonoContextLike {
+  req: { raw: Request }
+  set(key: 'irl', value: unknown): void
+}
+
+/**
+ * Create a Hono middleware that authenticates the Bearer token
+ * On success the verified user is available as `c.get('irl')`; otherwise a 401 is returned
+ *
+ * @example
+ * app.use('/api/*', createHonoMiddleware({ audience: 'https://example.app' }))
+ */
+export function createHonoMiddleware(options: AuthenticateRequestOptions) {
+  return async (c: HonoContextLike, next: () => Promise<void>): Promise<Response | void> => {
+    try {
+      const user = await authenticateRequest(c.req.raw, options)
+      c.set('irl', user)
+    } catch (error) {
+      return createAuthenticationErrorResponse(error)
+    }
+
+    await next()
+  }
+}
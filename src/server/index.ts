@@ -0,0 +1,85 @@
+/**
+ * IRL Browser Onboarding - Server Package
+ * Request authentication for Node, Bun and edge runtimes
+ */
+
+// Export types
+export type {
+  AuthenticateRequestOptions,
+  AuthenticatedUser,
+  ChallengeStore,
+  IssueChallengeOptions,
+  IssuedChallenge,
+  VerifyChallengeOptions,
+  VerifiedChallenge,
+  RequestSignatureData,
+  VerifyRequestSignatureOptions,
+  VerifiedRequestSignature,
+  VerifiableCredential,
+  VerifyCredentialOptions,
+  VerifiedCredential,
+  VerifyCredentialPresentationOptions,
+  VerifiedCredentialPresentation,
+  JWTPayload,
+  JWTHeader,
+  ParseJWTOptions,
+  ParsedJWT,
+  Ed25519PublicJwk,
+  ProfilePublicJwk,
+  ProfileJwks,
+  Profile,
+  ReplayCache,
+  VerifyJWTOptions,
+  CreateVerifierOptions,
+  JWTVerifier,
+  BatchVerificationResult,
+  JWEHeader
+} from '../types'
+
+// Export JWT verification
+export { verifyAndDecodeJWT } from '../core/crypto'
+export { parseJWT, MAX_JWT_LENGTH } from '../core/jwtParser'
+export { resolveDidKey, didToJwk, didsToJwks, jwkToDid } from '../core/did'
+
+// Export credential verification
+export { verifyCredential, verifyCredentialPresentation } from '../core/credentials'
+
+// Export mini app scopes
+export { getScopedAudience } from '../core/scope'
+
+// Export encryption to DIDs
+export { encryptForDid, decryptJWE } from '../core/jwe'
+
+// Export batch verification
+export { createVerifier } from '../core/verifier'
+
+// Export replay protection
+export { InMemoryReplayCache } from '../core/replay'
+
+// Export request authentication
+export {
+  authenticateRequest,
+  authenticateAuthorizationHeader,
+  getAuthenticationErrorBody,
+  createAuthenticationErrorResponse
+} from './auth'
+export type { AuthenticationErrorBody } from './auth'
+
+// Export challenge-response sign-in
+export { issueChallenge, verifyChallenge, InMemoryChallengeStore } from './challenge'
+
+// Export signed requests
+export { verifyRequestSignature, verifySignedRequest } from './request'
+export { REQUEST_SIGNATURE_HEADER, REQUEST_SIGNATURE_TYPE } from '../core/request'
+
+// Export framework adapters
+export { createExpressMiddleware } from './express'
+export type { NodeRequestLike, NodeResponseLike } from './express'
+export { createHonoMiddleware } from './hono'
+export type { HonoContextLike } from './hono'
+
+// Export errors
+export { AuthenticationError } from './errors'
+export type { AuthenticationErrorCode } from './errors'
+export { JWTVerificationError, DIDResolutionError, CredentialError, JWEError } from '../core/errors'
+export type { JWTVerificationErrorCode, DIDResolutionErrorCode, CredentialErrorCode, JWEErrorCode } from '../core/errors'
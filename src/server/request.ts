@@ -0,0 +1,87 @@
+/**
+ * Verification of signed requests
+ * The mini app signs each request with window.irlBrowser.signRequest() and sends the JWT in the IRL-Signature header,
+ * so a proxy cannot swap the body, method or URL of an authenticated request
+ */
+
+import type { JWTPayload, VerifiedRequestSignature, VerifyRequestSignatureOptions } from '../types'
+import { verifyAndDecodeJWT } from '../core/crypto'
+import { JWTVerificationError } from '../core/errors'
+import { REQUEST_SIGNATURE_HEADER, REQUEST_SIGNATURE_TYPE, getRequestBinding } from '../core/request'
+import { AuthenticationError } from './errors'
+
+/**
+ * Verify an `irl:request` JWT against the request it was sent with
+ *
+ * @param jwt - The JWT returned by window.irlBrowser.signRequest()
+ * @param options - Expected audience and the method, absolute URL and raw body as received
+ * @returns The DID that signed the request
+ * @throws AuthenticationError if the token is invalid or was signed for a different request
+ */
+export async function verifyRequestSignature(
+  jwt: string,
+  options: VerifyRequestSignatureOptions
+): Promise<VerifiedRequestSignature> {
+  const { method, url, body, ...verifyOptions } = options
+
+  let payload: JWTPayload
+  try {
+    payload = await verifyAndDecodeJWT(jwt, { ...verifyOptions, type: REQUEST_SIGNATURE_TYPE })
+  } catch (error) {
+    if (error instanceof JWTVerificationError) {
+      throw new AuthenticationError(error.code, error.message)
+    }
+    throw error
+  }
+
+  const data = payload.data
+  if (
+    !data ||
+    data.did !== payload.iss ||
+    typeof data.method !== 'string' ||
+    typeof data.url !== 'string' ||
+    typeof data.bodyDigest !== 'string'
+  ) {
+    throw new AuthenticationError('INVALID_AUTHORIZATION', 'JWT does not contain a valid request signature')
+  }
+
+  const expected = getRequestBinding({ method, url, body })
+
+  if (data.method !== expected.method || data.url !== expected.url) {
+    throw new AuthenticationError('REQUEST_SIGNATURE_MISMATCH', 'Request was signed for a different method or URL')
+  }
+
+  if (data.bodyDigest !== expected.bodyDigest) {
+    throw new AuthenticationError('REQUEST_SIGNATURE_MISMATCH', 'Request body does not match its signature')
+  }
+
+  return { did: payload.iss, payload }
+}
+
+/**
+ * Verify the IRL-Signature header of a Fetch API Request
+ * Reads the body from a clone, so the request can still be consumed afterwards
+ *
+ * @param request - The incoming request
+ * @param options - Expected audience and other verification options
+ * @returns The DID that signed the request
+ * @throws AuthenticationError if the header is missing or does not match the request
+ */
+export async function verifySignedRequest(
+  request: Request,
+  options: Omit<VerifyRequestSignatureOptions, 'method' | 'url' | 'body'>
+): Promise<VerifiedRequestSignature> {
+  const jwt = request.headers.get(REQUEST_SIGNATURE_HEADER)
+  if (!jwt) {
+    throw new AuthenticationError('MISSING_REQUEST_SIGNATURE', `No ${REQUEST_SIGNATURE_HEADER} header provided`)
+  }
+
+  const body = new Uint8Array(await request.clone().arrayBuffer())
+
+  return verifyRequestSignature(jwt.trim(), {
+    ...options,
+    method: request.method,
+    url: request.url,
+    body
+  })
+}
@@ -3,6 +3,8 @@
  * Compatible with IRL Browser Specification
  */
 
+import type { JWTVerificationError } from './core/errors'
+
 // ============================================================================
 // Profile Types
 // ============================================================================
@@ -41,13 +43,181 @@ export interface Profile {
   did: string
   name: string
   socials?: SocialLink[]
+  /**
+   * Avatar as a data URL, when passed to createProfile() or updateProfile()
+   * Profiles returned by the library never include it; load the image with getAvatar(avatarHash)
+   */
   avatar?: string | null
+  avatarHash?: string // SHA-256 (hex) of the stored avatar image
+  expiresAt?: number // Seconds since epoch; temporary profiles are wiped after this
+}
+
+/**
+ * Called after an expired profile has been wiped
+ */
+export type ProfileExpireListener = (profile: Profile) => void
+
+/**
+ * What happened to a stored profile
+ * - 'created': a profile was added to this device
+ * - 'updated': a stored profile's details were saved again
+ * - 'switched': another profile became the active one
+ * - 'cleared': a profile was removed (by removeProfile, clearProfile or expiry)
+ * - 'key-rotated': the stored key of an existing profile was replaced
+ */
+export type ProfileChangeType = 'created' | 'updated' | 'switched' | 'cleared' | 'key-rotated'
+
+export interface ProfileChangeEvent {
+  type: ProfileChangeType
+  did: string // The profile the change applies to
+  remote: boolean // True when the change was made in another tab
+}
+
+export type ProfileChangeListener = (event: ProfileChangeEvent) => void
+
+/**
+ * Snapshot held by a profile store; replaced (never mutated) on every change
+ */
+export interface ProfileStoreState {
+  profile: Profile | null // The active profile
+  profiles: Profile[] // Every profile on this device, in creation order
+  isLoading: boolean // True until profiles have been read for the first time
+}
+
+/**
+ * Subscribable view of the stored profiles, shaped for React's useSyncExternalStore
+ */
+export interface ProfileStore {
+  getSnapshot(): ProfileStoreState
+  subscribe(onStoreChange: () => void): () => void
+  refresh(): Promise<void> // Re-read storage, e.g. after configureStorage() or configureScope()
 }
 
 export interface ProfileKeys {
   did: string
   privateKey: string // base64-encoded 64-byte Ed25519 key
   publicKey: string // base64-encoded 32-byte public key
+  mnemonic?: string // BIP39 recovery phrase, when keys were derived from one
+}
+
+/**
+ * BIP39 entropy in bits: 128 = 12 words, 256 = 24 words
+ */
+export type MnemonicStrength = 128 | 256
+
+export interface GenerateProfileKeysOptions {
+  /**
+   * Derive keys from a BIP39 recovery phrase
+   * `true` generates a new phrase; a string uses that phrase
+   */
+  mnemonic?: boolean | string
+
+  /**
+   * Length of a newly generated phrase
+   * Default: 128 (12 words)
+   */
+  strength?: MnemonicStrength
+}
+
+/**
+ * Where the profile's private key is kept
+ * - 'local': base64 Ed25519 secret key in profile storage (default)
+ * - 'webcrypto': non-extractable WebCrypto CryptoKey in IndexedDB
+ */
+export type KeyBackend = 'local' | 'webcrypto'
+
+/**
+ * Signs JWTs without exposing the private key to the caller
+ */
+export interface JWTSigner {
+  /**
+   * Produce a 64-byte Ed25519 signature over the given bytes
+   */
+  sign(data: Uint8Array): Promise<Uint8Array>
+}
+
+export interface CreateProfileOptions {
+  /**
+   * Where to keep the private key
+   * 'webcrypto' falls back to 'local' when the runtime lacks Ed25519 WebCrypto or IndexedDB
+   * Default: 'local'
+   */
+  keyBackend?: KeyBackend
+
+  /**
+   * BIP39 recovery phrase to derive the keys from (always uses the 'local' key backend)
+   */
+  mnemonic?: string
+
+  /**
+   * Make the profile temporary: seconds until it is wiped
+   */
+  ttl?: number
+
+  /**
+   * Make the profile temporary: when it is wiped (takes precedence over `ttl`)
+   */
+  expiresAt?: Date
+}
+
+// ============================================================================
+// DID Types
+// ============================================================================
+
+export type VerificationMethodType = 'Ed25519VerificationKey2020' | 'JsonWebKey2020'
+
+export interface Ed25519PublicJwk {
+  kty: 'OKP'
+  crv: 'Ed25519'
+  x: string // base64url-encoded 32-byte public key
+}
+
+/**
+ * Public JWK of a profile, identified by its DID verification method
+ */
+export interface ProfilePublicJwk extends Ed25519PublicJwk {
+  kid: string // DID verification method ID (did:key:z...#z...)
+  alg: 'EdDSA'
+  use: 'sig'
+}
+
+/**
+ * JSON Web Key Set (RFC 7517)
+ */
+export interface ProfileJwks {
+  keys: ProfilePublicJwk[]
+}
+
+export interface VerificationMethod {
+  id: string
+  type: VerificationMethodType
+  controller: string
+  publicKeyMultibase?: string
+  publicKeyJwk?: Ed25519PublicJwk
+}
+
+export interface DIDDocument {
+  '@context': string[]
+  id: string
+  verificationMethod: VerificationMethod[]
+  authentication: string[]
+  assertionMethod: string[]
+  capabilityInvocation: string[]
+  capabilityDelegation: string[]
+}
+
+export interface ResolvedDidKey {
+  did: string
+  publicKey: Uint8Array // 32-byte Ed25519 public key
+  didDocument: DIDDocument
+}
+
+export interface ResolveDidKeyOptions {
+  /**
+   * Verification method representation in the DID Document
+   * Default: 'Ed25519VerificationKey2020'
+   */
+  verificationMethodType?: VerificationMethodType
 }
 
 // ============================================================================
@@ -65,6 +235,25 @@ export interface IRLBrowser {
    */
   getAvatar(): Promise<string | null>
 
+  /**
+   * Sign a server-issued nonce as an `irl:auth:challenge` JWT (proof of key possession)
+   * Optional: not every IRL Browser implements it
+   */
+  signChallenge?(nonce: string, context?: string): Promise<string>
+
+  /**
+   * Present held credentials of a type as an `irl:credential:presentation` JWT
+   * Resolves to null when the user holds no valid credential of that type
+   * Optional: not every IRL Browser implements it
+   */
+  presentCredential?(type: string): Promise<string | null>
+
+  /**
+   * Sign an HTTP request as an `irl:request` JWT bound to its method, URL and body digest
+   * Optional: not every IRL Browser implements it
+   */
+  signRequest?(request: SignRequestInput): Promise<string>
+
   /**
    * Get details about the IRL Browser
    */
@@ -88,13 +277,186 @@ export interface BrowserDetails {
   supportedPermissions: string[]
 }
 
+/**
+ * Data posted to the mini app with `window.postMessage` for IRL Browser events
+ * The event (e.g. `irl:profile:disconnected`) is the `type` claim of the signed JWT
+ */
+export interface IRLBrowserSignedMessage {
+  jwt: string
+}
+
+/**
+ * `irl:error` posted without a signature, when there is no profile key to sign it (e.g. PROFILE_NOT_FOUND)
+ * Nothing vouches for it, so use it to react in the UI, never as data from the user
+ */
+export interface IRLBrowserUnsignedError {
+  type: 'irl:error'
+  data: IRLBrowserErrorData
+}
+
+export type IRLBrowserMessage = IRLBrowserSignedMessage | IRLBrowserUnsignedError
+
+/**
+ * What the mock `window.irlBrowser.close()` does after sending `irl:profile:disconnected`
+ * A web page cannot close its own tab, so this stands in for closing the WebView
+ * - 'none': nothing else (default)
+ * - 'back': go back in history
+ * - { navigate: url }: go to a URL (e.g. a "thanks for visiting" page)
+ * - a function: run your own handler
+ */
+export type CloseBehavior = 'none' | 'back' | { navigate: string } | (() => void)
+
+/**
+ * `data` claim of an `irl:error` JWT
+ */
+export interface IRLBrowserErrorData {
+  code: string
+  message: string
+}
+
+/**
+ * How the mock `window.irlBrowser.requestPermission()` handles permissions other than 'profile'
+ */
+export interface PermissionOptions {
+  /**
+   * Permissions the mini app's manifest declares; others are rejected with PERMISSION_NOT_DECLARED
+   * Default: ['profile']
+   */
+  declared?: string[]
+
+  /**
+   * Ask the user for a declared permission; resolve false to deny it
+   * Default: window.confirm()
+   */
+  prompt?: (permission: string) => boolean | Promise<boolean>
+}
+
+// ============================================================================
+// IRL Manifest Types (from specification)
+// ============================================================================
+
+/**
+ * Mini app manifest, declared with `<link rel="irl-manifest" href="...">`
+ */
+export interface IrlManifest {
+  /**
+   * Display name of the mini app
+   */
+  name: string
+
+  /**
+   * Short description of the mini app
+   */
+  description?: string
+
+  /**
+   * Location of the experience (e.g. a street address)
+   */
+  location?: string
+
+  /**
+   * App icon URL (recommended: 512x512px)
+   * loadManifest() resolves a relative path against the manifest's URL
+   */
+  icon?: string
+
+  /**
+   * Context type, e.g. 'place', 'event' or 'club'
+   */
+  type?: string
+
+  /**
+   * Requested permissions; 'profile' is granted by default
+   */
+  permissions?: string[]
+}
+
+/**
+ * One problem found in a manifest
+ */
+export interface ManifestValidationIssue {
+  /**
+   * Field the problem is in (e.g. 'name' or 'permissions[1]'), or '' for the manifest as a whole
+   */
+  field: string
+
+  /**
+   * Readable description, e.g. '"name" is required'
+   */
+  message: string
+}
+
+/**
+ * Outcome of validateManifest()
+ */
+export type ManifestValidationResult =
+  | { valid: true; manifest: IrlManifest }
+  | { valid: false; errors: ManifestValidationIssue[] }
+
+/**
+ * Outcome of loadManifest(): the validation result and where the manifest was fetched from
+ */
+export type LoadManifestResult = ManifestValidationResult & { url: string }
+
+export interface ValidateManifestOptions {
+  /**
+   * URL the manifest was served from, used to resolve a relative `icon`
+   * Without it, a relative icon is kept as written
+   */
+  baseUrl?: string
+}
+
+export interface LoadManifestOptions {
+  /**
+   * Manifest URL to fetch instead of the `<link rel="irl-manifest">` on the page
+   */
+  url?: string
+
+  /**
+   * Fetch implementation (default: the global fetch), e.g. a stub that keeps tests offline
+   */
+  fetch?: (url: string) => Promise<Response>
+}
+
 // ============================================================================
 // JWT Types
 // ============================================================================
 
+/**
+ * Media type of the token: plain JWT, or a VC-JWT (W3C Verifiable Credential)
+ */
+export type JWTType = 'JWT' | 'vc+jwt'
+
 export interface JWTHeader {
   alg: 'EdDSA'
-  typ: 'JWT'
+  typ: JWTType
+  cty?: 'vc' // Content type of VC-JWTs
+  kid?: string // DID verification method ID of the signing key
+}
+
+export interface ParseJWTOptions {
+  /**
+   * Claims that must be present (e.g. ['iss', 'aud', 'iat', 'exp', 'type'])
+   */
+  requiredClaims?: string[]
+}
+
+/**
+ * A strictly parsed, not yet verified, JWT
+ */
+export interface ParsedJWT<T = Record<string, unknown>> {
+  header: JWTHeader
+  payload: T
+  signature: Uint8Array // Raw 64-byte Ed25519 signature
+  signingInput: string // "header.payload" as sent
+}
+
+export interface CreateJWTOptions {
+  /**
+   * Header `typ`
+   * Default: 'JWT'
+   */
+  typ?: JWTType
 }
 
 export interface JWTPayload {
@@ -103,18 +465,505 @@ export interface JWTPayload {
   iat: number // Issued at timestamp
   exp: number // Expiration timestamp
   type: string // Operation type
+  jti?: string // Unique token ID (used for replay protection)
   data?: any // Type-specific payload
 }
 
+/**
+ * Remembers token IDs (`jti`) so a token can only be used once
+ */
+export interface ReplayCache {
+  /**
+   * Record a token ID until it expires
+   * @param jti - The token ID
+   * @param expiresAt - When the token stops being valid (seconds since epoch)
+   * @returns false if the token ID was already recorded and has not yet expired
+   */
+  checkAndStore(jti: string, expiresAt: number): boolean | Promise<boolean>
+}
+
+export interface VerifyJWTOptions {
+  /**
+   * Expected audience (mini app origin), e.g. 'https://example.app'
+   * Pass an array to accept any of several origins
+   */
+  audience: string | string[]
+
+  /**
+   * Expected `type` claim, e.g. 'irl:profile:details'
+   */
+  type?: string | string[]
+
+  /**
+   * Allowed clock skew in seconds when checking `exp` and `iat`
+   * Default: 30
+   */
+  clockTolerance?: number
+
+  /**
+   * Current time in seconds since epoch (defaults to Date.now())
+   */
+  currentTime?: number
+
+  /**
+   * Reject tokens whose `jti` was already seen before they expired
+   * Tokens without a `jti` are rejected when this is set
+   */
+  replayCache?: ReplayCache
+
+  /**
+   * Expected mini app scope, e.g. '/venue-a'
+   * The token's `aud` must then be the audience followed by this path (e.g. 'https://example.app/venue-a')
+   */
+  scope?: string
+}
+
+export interface CreateVerifierOptions extends VerifyJWTOptions {
+  /**
+   * Number of issuer DIDs whose decoded keys are kept
+   * Default: 1000
+   */
+  cacheSize?: number
+}
+
+/**
+ * Outcome of one token in JWTVerifier.verifyMany()
+ */
+export type BatchVerificationResult =
+  | { valid: true; payload: JWTPayload }
+  | { valid: false; error: JWTVerificationError }
+
+/**
+ * Reusable JWT verifier that caches decoded issuer keys
+ */
+export interface JWTVerifier {
+  /**
+   * Verify one token (same checks as verifyAndDecodeJWT)
+   * @throws JWTVerificationError if the token is refused
+   */
+  verify(jwt: string): Promise<JWTPayload>
+
+  /**
+   * Verify many tokens in order; one result per token, failures do not stop the batch
+   */
+  verifyMany(jwts: string[]): Promise<BatchVerificationResult[]>
+
+  /**
+   * Number of issuer keys currently cached
+   */
+  readonly cacheSize: number
+
+  /**
+   * Drop all cached keys
+   */
+  clearCache(): void
+}
+
+// ============================================================================
+// JWE Types
+// ============================================================================
+
+/**
+ * Protected header of a JWE from encryptForDid()
+ */
+export interface JWEHeader {
+  alg: 'ECDH-ES'
+  enc: 'A256GCM'
+  kid?: string // Recipient DID verification method ID
+  epk: {
+    kty: 'OKP'
+    crv: 'X25519'
+    x: string // base64url ephemeral public key
+  }
+}
+
+// ============================================================================
+// Migration Types
+// ============================================================================
+
+/**
+ * How a migration bundle carries the identity to the native app
+ * - 'key': the bundle includes the private key, so the app keeps the same DID
+ * - 'link': no key material; the signed bundle links the web DID to the app's own DID
+ */
+export type MigrationMethod = 'key' | 'link'
+
+/**
+ * `data` claim of an `irl:profile:migration` JWT
+ * See docs/migration-bundle.md
+ */
+export interface MigrationBundleData {
+  version: 2
+  method: MigrationMethod
+  origin: string // Origin of the mini app where the profile was created
+  nonce: string // Nonce of the app's migration request; binds the bundle to that request
+  profile: {
+    did: string
+    name: string
+    socials: SocialLink[]
+  }
+  privateKey?: string // base64-encoded 64-byte Ed25519 key (method 'key' only)
+}
+
+export interface MigrationBundle {
+  jwt: string
+  uri: string // Contents of the QR code
+  method: MigrationMethod
+  expiresAt: number // Seconds since epoch
+}
+
+export interface CreateMigrationBundleOptions {
+  /**
+   * Nonce the receiving app supplied with its migration request (e.g. in the link that opened the page)
+   * The app only accepts a bundle carrying the nonce it issued, so a photographed QR code cannot be claimed
+   * by another device
+   */
+  nonce: string
+
+  /**
+   * Include the private key so the app keeps the same DID
+   * The key is not encrypted: anyone who sees the QR code gets the identity, so only opt in when the code
+   * is shown on the user's own screen. Profiles with a non-extractable WebCrypto key always use 'link'
+   * Default: false
+   */
+  includePrivateKey?: boolean
+
+  /**
+   * Seconds until the bundle expires
+   * Default: 300
+   */
+  expiresIn?: number
+}
+
+export interface VerifyMigrationBundleOptions {
+  /**
+   * Nonce this app issued for the migration request; bundles carrying another nonce are rejected
+   */
+  nonce: string
+
+  /**
+   * Where bundle IDs are recorded so each bundle is imported once
+   * Default: an InMemoryReplayCache shared by every call in this process; pass a shared store when
+   * several processes import bundles
+   */
+  replayCache?: ReplayCache
+
+  /**
+   * Current time in seconds since epoch (defaults to Date.now())
+   */
+  currentTime?: number
+}
+
+export interface VerifiedMigrationBundle extends MigrationBundleData {
+  payload: JWTPayload
+}
+
+// ============================================================================
+// Verifiable Credential Types
+// ============================================================================
+
+export interface CredentialSubject {
+  id: string // Subject DID
+  [claim: string]: unknown
+}
+
+/**
+ * W3C Verifiable Credential (Data Model 2.0)
+ */
+export interface VerifiableCredential {
+  '@context': string[]
+  id?: string
+  type: string[] // Always starts with 'VerifiableCredential'
+  issuer: string // Issuer DID
+  validFrom: string // ISO 8601 date-time
+  validUntil?: string // ISO 8601 date-time
+  credentialSubject: CredentialSubject
+}
+
+/**
+ * Payload of a VC-JWT: the credential itself plus registered JWT claims
+ */
+export interface CredentialJWTPayload extends VerifiableCredential {
+  iss: string // Same as issuer
+  sub: string // Same as credentialSubject.id
+  iat: number
+  nbf: number // validFrom
+  exp?: number // validUntil
+  jti?: string
+}
+
+export interface IssueCredentialOptions {
+  /**
+   * Credential type(s) added after 'VerifiableCredential' (e.g. 'EventAttendanceCredential')
+   */
+  type: string | string[]
+
+  /**
+   * DID the credential is about
+   */
+  subject: string
+
+  /**
+   * Claims about the subject
+   */
+  claims?: Record<string, unknown>
+
+  /**
+   * Optional credential ID (URI)
+   */
+  id?: string
+
+  /**
+   * Default: now
+   */
+  validFrom?: Date
+
+  /**
+   * Default: no expiry
+   */
+  validUntil?: Date
+
+  /**
+   * Key to sign with
+   * Default: the current profile
+   */
+  issuer?: {
+    did: string
+    privateKey: string | JWTSigner
+  }
+}
+
+export interface IssuedCredential {
+  jwt: string
+  credential: VerifiableCredential
+}
+
+export interface VerifyCredentialOptions {
+  /**
+   * Required credential type
+   */
+  type?: string
+
+  /**
+   * Accept only credentials from these issuer DIDs
+   */
+  trustedIssuers?: string[]
+
+  /**
+   * Required subject DID
+   */
+  subject?: string
+
+  /**
+   * Allowed clock skew in seconds
+   * Default: 30
+   */
+  clockTolerance?: number
+
+  /**
+   * Override the current time (seconds since epoch)
+   */
+  currentTime?: number
+}
+
+export interface VerifiedCredential {
+  jwt: string
+  credential: VerifiableCredential
+  issuer: string
+  subject: string
+}
+
+/**
+ * A credential held by the current profile
+ */
+export interface HeldCredential {
+  jwt: string
+  credential: VerifiableCredential
+}
+
+export interface VerifyCredentialPresentationOptions extends Omit<VerifyJWTOptions, 'type'> {
+  /**
+   * Options applied to every presented credential
+   * The subject is always the presenting DID
+   */
+  credential?: Omit<VerifyCredentialOptions, 'subject' | 'currentTime' | 'clockTolerance'>
+}
+
+export interface VerifiedCredentialPresentation {
+  did: string
+  credentials: VerifiedCredential[]
+  payload: JWTPayload
+}
+
+// ============================================================================
+// Server Types
+// ============================================================================
+
+export interface AuthenticateRequestOptions extends Omit<VerifyJWTOptions, 'type'> {}
+
+export interface AuthenticatedUser {
+  did: string
+  profile: Profile
+  payload: JWTPayload
+}
+
+/**
+ * Holds issued challenge nonces until they are used or expire
+ */
+export interface ChallengeStore {
+  /**
+   * Remember an issued nonce
+   * @param expiresAt - When the nonce stops being valid (seconds since epoch)
+   */
+  save(nonce: string, expiresAt: number): void | Promise<void>
+
+  /**
+   * Remove a nonce so it cannot be used again
+   * @returns true if the nonce was issued and had not expired
+   */
+  consume(nonce: string): boolean | Promise<boolean>
+}
+
+export interface IssueChallengeOptions {
+  store: ChallengeStore
+
+  /**
+   * Seconds until the nonce expires
+   * Default: 300
+   */
+  ttl?: number
+}
+
+export interface IssuedChallenge {
+  nonce: string
+  expiresAt: number
+}
+
+export interface VerifyChallengeOptions extends Omit<VerifyJWTOptions, 'type'> {
+  store: ChallengeStore
+
+  /**
+   * Context the challenge must have been signed for, if any
+   */
+  context?: string
+}
+
+export interface VerifiedChallenge {
+  did: string
+  nonce: string
+  context?: string
+  payload: JWTPayload
+}
+
+/**
+ * HTTP request to sign with window.irlBrowser.signRequest()
+ */
+export interface SignRequestInput {
+  method: string
+  url: string // Absolute, or relative to the current page
+  body?: string | Uint8Array | null
+}
+
+/**
+ * Data of an `irl:request` JWT
+ */
+export interface RequestSignatureData {
+  did: string
+  method: string // Uppercase
+  url: string // Absolute URL without fragment
+  bodyDigest: string // base64url SHA-256 of the body bytes (empty body hashes zero bytes)
+}
+
+export interface VerifyRequestSignatureOptions extends Omit<VerifyJWTOptions, 'type'> {
+  /**
+   * Method, absolute URL and raw body of the request as received
+   */
+  method: string
+  url: string
+  body?: string | Uint8Array | null
+}
+
+export interface VerifiedRequestSignature {
+  did: string
+  payload: JWTPayload
+}
+
 // ============================================================================
 // Storage Types
 // ============================================================================
 
+/**
+ * Called when stored data changes outside this page
+ * @param key - The changed key, or null when the whole store was cleared
+ */
+export type StorageChangeListener = (key: string | null) => void
+
+/**
+ * Async key-value store that holds profile data
+ * Values are strings; structured data is stored as JSON
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+
+  /**
+   * Listen for changes made elsewhere (e.g. other tabs), if the backend reports them
+   * @returns Function that stops listening
+   */
+  subscribe?(listener: StorageChangeListener): () => void
+}
+
+export interface ScopeOptions {
+  /**
+   * URL path of the mini app, e.g. '/venue-a'
+   */
+  path: string
+
+  /**
+   * Give this scope its own profiles and DID, so mini apps in other scopes cannot correlate users
+   * Default: false (the origin's profiles and DID are shared; only scope data such as credentials is separate)
+   */
+  separateDid?: boolean
+}
+
+/**
+ * A configured scope with its normalized path
+ */
+export interface ProfileScope {
+  path: string
+  separateDid: boolean
+}
+
 export interface StoredProfile {
   did: string
   name: string
   socials?: SocialLink[]
-  avatar?: string | null
+  avatarHash?: string // The avatar image is stored separately under this SHA-256 (hex)
+  keyBackend?: KeyBackend // Defaults to 'local' when missing
+  expiresAt?: number // Seconds since epoch; missing for permanent profiles
+}
+
+/**
+ * Passphrase-encrypted profile backup (version 1)
+ * The encrypted plaintext is JSON: { profile: StoredProfile, privateKey: string }
+ */
+export interface ProfileBackup {
+  format: 'irl-onboarding-backup'
+  version: 1
+  did: string // Unencrypted so users can tell backups apart; bound to the ciphertext as AAD
+  createdAt: string // ISO 8601
+  kdf: {
+    name: 'PBKDF2'
+    hash: 'SHA-256'
+    iterations: number
+    salt: string // base64url
+  }
+  cipher: {
+    name: 'AES-GCM'
+    iv: string // base64url, 12 bytes
+  }
+  ciphertext: string // base64url, includes the 16-byte GCM tag
 }
 
 export interface StorageKeys {
@@ -142,6 +991,48 @@ export interface OnboardingConfig {
    */
   skipAvatarStep?: boolean
 
+  /**
+   * Where to keep the private key of created profiles
+   * Default: 'local'
+   */
+  keyBackend?: KeyBackend
+
+  /**
+   * Derive the keys from a BIP39 recovery phrase and show it as an extra step
+   * The user must confirm the phrase before the profile is created
+   * Default: false
+   */
+  showSeedPhraseStep?: boolean
+
+  /**
+   * Make created profiles temporary: seconds until they are wiped
+   * Default: permanent
+   */
+  ttl?: number
+
+  /**
+   * Called when a temporary profile has expired and been wiped (same as calling onExpire())
+   */
+  onExpire?: (profile: Profile) => void
+
+  /**
+   * Where to keep profile data (same as calling configureStorage())
+   * Default: LocalStorageAdapter
+   */
+  storage?: StorageAdapter
+
+  /**
+   * Mini app scope on a shared origin (same as calling configureScope())
+   * Namespaces storage and signs JWTs with `aud` set to the scoped URL
+   */
+  scope?: string | ScopeOptions
+
+  /**
+   * What `window.irlBrowser.close()` does in a regular browser (same as calling configureClose())
+   * Default: 'none'
+   */
+  closeBehavior?: CloseBehavior
+
   /**
    * Custom styles for theming
    */
@@ -152,6 +1043,12 @@ export interface OnboardingConfig {
    */
   onComplete?: (profile: Profile) => void
 
+  /**
+   * Show a "Restore from backup" option on the choice screen
+   * Default: false
+   */
+  showRestoreOption?: boolean
+
   /**
    * Container element (vanilla JS only)
    */
@@ -204,6 +1101,9 @@ export interface DownloadPromptProps {
 export interface CreateAccountFlowProps {
   skipSocialStep?: boolean
   skipAvatarStep?: boolean
+  keyBackend?: KeyBackend
+  showSeedPhraseStep?: boolean
+  ttl?: number
   onComplete?: (profile: Profile) => void
   onBack?: () => void
   customStyles?: CustomStyles
@@ -238,3 +1138,64 @@ export interface AvatarStepProps {
   initialValue?: string | null
   customStyles?: CustomStyles
 }
+
+export interface SeedPhraseStepProps {
+  mnemonic: string
+  onComplete: () => void
+  onBack: () => void
+  currentStep: number
+  totalSteps: number
+  customStyles?: CustomStyles
+}
+
+export interface BackupProfileProps {
+  onComplete?: () => void
+  onBack?: () => void
+  customStyles?: CustomStyles
+}
+
+export interface RestoreProfileProps {
+  onRestore?: (profile: Profile) => void
+  onBack?: () => void
+  customStyles?: CustomStyles
+}
+
+export interface ProfileSwitcherProps {
+  /**
+   * Called after the user switches to a profile
+   */
+  onSelect?: (profile: Profile) => void
+
+  /**
+   * Called after the user adds a profile (it is active from then on)
+   */
+  onCreate?: (profile: Profile) => void
+
+  /**
+   * Options for the CreateAccountFlow used to add a profile
+   */
+  skipSocialStep?: boolean
+  skipAvatarStep?: boolean
+  keyBackend?: KeyBackend
+  showSeedPhraseStep?: boolean
+  ttl?: number
+
+  onBack?: () => void
+  customStyles?: CustomStyles
+}
+
+export interface MigrateToAppProps {
+  /**
+   * Nonce from the app's migration request (see CreateMigrationBundleOptions)
+   */
+  nonce: string
+
+  /**
+   * Put the unencrypted private key in the QR code (see CreateMigrationBundleOptions)
+   * Default: false
+   */
+  includePrivateKey?: boolean
+  expiresIn?: number
+  onBack?: () => void
+  customStyles?: CustomStyles
+}
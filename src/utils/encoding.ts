@@ -0,0 +1,32 @@
+/**
+ * Binary encoding utilities
+ */
+
+import * as base64 from 'base64-js'
+
+/**
+ * Helper function to encode to base64url (RFC 4648)
+ * Converts standard base64 to base64url by replacing + with -, / with _, and removing padding =
+ */
+export const base64url = {
+  encode: (input: Uint8Array): string => {
+    const base64String = base64.fromByteArray(input)
+    return base64String
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=/g, '')
+  },
+
+  decode: (input: string): Uint8Array => {
+    // Convert base64url back to base64
+    let base64String = input
+      .replace(/-/g, '+')
+      .replace(/_/g, '/')
+
+    // Add padding if needed
+    const padding = (4 - (base64String.length % 4)) % 4
+    base64String += '='.repeat(padding)
+
+    return base64.toByteArray(base64String)
+  }
+}
@@ -0,0 +1,556 @@
+/**
+ * QR code encoder (ISO/IEC 18004, Model 2)
+ * Byte mode only, versions 1-40, automatic mask selection
+ * Runs fully offline so profile data never leaves the device to render a QR code
+ */
+
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+export interface QRCode {
+  version: number
+  size: number // Modules per side (excluding quiet zone)
+  errorCorrectionLevel: QRErrorCorrectionLevel
+  modules: boolean[][] // modules[y][x], true = dark
+}
+
+export interface EncodeQRCodeOptions {
+  /**
+   * Error correction level
+   * Default: 'M'
+   */
+  errorCorrectionLevel?: QRErrorCorrectionLevel
+}
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// Format information bits for each error correction level
+const FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+}
+
+// Number of error correction blocks, indexed by version (index 0 unused)
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+}
+
+// Penalty weights used to pick the best mask
+const PENALTY_N1 = 3
+const PENALTY_N2 = 3
+const PENALTY_N3 = 40
+const PENALTY_N4 = 10
+
+/**
+ * Number of modules available for data and error correction in a version
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) {
+      result -= 36
+    }
+  }
+  return result
+}
+
+/**
+ * Number of 8-bit data codewords available in a version at an error correction level
+ */
+function getNumDataCodewords(version: number, ecl: QRErrorCorrectionLevel): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version]
+  )
+}
+
+/**
+ * Width of the byte-mode character count field
+ */
+function getByteModeCountBits(version: number): number {
+  return version <= 9 ? 8 : 16
+}
+
+/**
+ * Multiply two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+/**
+ * Reed-Solomon generator polynomial of the given degree (leading coefficient omitted)
+ */
+function reedSolomonComputeDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1]
+      }
+    }
+    root = gfMultiply(root, 0x02)
+  }
+
+  return result
+}
+
+/**
+ * Reed-Solomon error correction codewords for a block of data
+ */
+function reedSolomonComputeRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+
+  return result
+}
+
+/**
+ * Split data into blocks, append error correction to each and interleave them
+ */
+function addEccAndInterleave(data: number[], version: number, ecl: QRErrorCorrectionLevel): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonComputeDivisor(blockEccLength)
+  const blocks: number[][] = []
+
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1)
+    const block = data.slice(k, k + dataLength)
+    k += dataLength
+
+    const ecc = reedSolomonComputeRemainder(block, divisor)
+    if (i < numShortBlocks) {
+      block.push(0) // Placeholder so all blocks have equal length; skipped when interleaving
+    }
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+
+  return result
+}
+
+/**
+ * Encode the data bytes into codewords for a version, including padding
+ */
+function createDataCodewords(bytes: Uint8Array, version: number, ecl: QRErrorCorrectionLevel): number[] {
+  const bits: number[] = []
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1)
+    }
+  }
+
+  // Byte mode indicator, character count and data
+  appendBits(0b0100, 4)
+  appendBits(bytes.length, getByteModeCountBits(version))
+  bytes.forEach((byte) => appendBits(byte, 8))
+
+  // Terminator and padding to a byte boundary
+  const capacityBits = getNumDataCodewords(version, ecl) * 8
+  appendBits(0, Math.min(4, capacityBits - bits.length))
+  appendBits(0, (8 - (bits.length % 8)) % 8)
+
+  // Alternating pad bytes until full
+  for (let padByte = 0xec; bits.length < capacityBits; padByte ^= 0xec ^ 0x11) {
+    appendBits(padByte, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+/**
+ * Center coordinates of the alignment patterns for a version
+ */
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) {
+    return []
+  }
+
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+
+  const result = [6]
+  for (let position = size - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position)
+  }
+  return result
+}
+
+/**
+ * Whether a mask pattern inverts the module at (x, y)
+ */
+function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+/**
+ * Mutable module grid used while building a symbol
+ */
+class QRMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  readonly isFunction: boolean[][]
+
+  constructor(readonly version: number, readonly ecl: QRErrorCorrectionLevel) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean): void {
+    this.modules[y][x] = isDark
+    this.isFunction[y][x] = true
+  }
+
+  /**
+   * Draw finder, timing and alignment patterns plus reserved format/version areas
+   */
+  drawFunctionPatterns(): void {
+    const { size } = this
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0)
+      this.setFunctionModule(i, 6, i % 2 === 0)
+    }
+
+    // Finder patterns (with separators) in three corners
+    this.drawFinderPattern(3, 3)
+    this.drawFinderPattern(size - 4, 3)
+    this.drawFinderPattern(3, size - 4)
+
+    // Alignment patterns, skipping the three that overlap finder patterns
+    const positions = getAlignmentPatternPositions(this.version)
+    const numAlign = positions.length
+    for (let i = 0; i < numAlign; i++) {
+      for (let j = 0; j < numAlign; j++) {
+        const overlapsFinder =
+          (i === 0 && j === 0) || (i === 0 && j === numAlign - 1) || (i === numAlign - 1 && j === 0)
+        if (!overlapsFinder) {
+          this.drawAlignmentPattern(positions[i], positions[j])
+        }
+      }
+    }
+
+    // Reserve format bits (overwritten once the mask is chosen) and draw version bits
+    this.drawFormatBits(0)
+    this.drawVersionBits()
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  /**
+   * Draw both copies of the 15-bit format information (BCH-encoded level and mask)
+   */
+  drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.ecl] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+
+    // First copy, around the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, bit(i))
+    }
+    this.setFunctionModule(8, 7, bit(6))
+    this.setFunctionModule(8, 8, bit(7))
+    this.setFunctionModule(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, bit(i))
+    }
+
+    // Second copy, split between the top-right and bottom-left finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, bit(i))
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, bit(i))
+    }
+    this.setFunctionModule(8, this.size - 8, true) // Always-dark module
+  }
+
+  /**
+   * Draw both copies of the 18-bit version information (versions 7 and up)
+   */
+  private drawVersionBits(): void {
+    if (this.version < 7) {
+      return
+    }
+
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | remainder
+
+    for (let i = 0; i < 18; i++) {
+      const isDark = ((bits >>> i) & 1) !== 0
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunctionModule(a, b, isDark)
+      this.setFunctionModule(b, a, isDark)
+    }
+  }
+
+  /**
+   * Place codewords in the zig-zag pattern, skipping function modules
+   */
+  drawCodewords(codewords: number[]): void {
+    const { size } = this
+    let bitIndex = 0
+
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5 // Skip the vertical timing pattern
+      }
+
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const isUpward = ((right + 1) & 2) === 0
+          const y = isUpward ? size - 1 - vertical : vertical
+
+          if (!this.isFunction[y][x] && bitIndex < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0
+            bitIndex++
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR a mask pattern onto the data modules (applying twice undoes it)
+   */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && isMasked(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score of the current modules (lower is easier to scan)
+   */
+  getPenaltyScore(): number {
+    const { size, modules } = this
+    let penalty = 0
+
+    const scoreLine = (getModule: (i: number) => boolean) => {
+      // N1: runs of five or more same-colored modules
+      let runColor = getModule(0)
+      let runLength = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && getModule(i) === runColor) {
+          runLength++
+          continue
+        }
+        if (runLength >= 5) {
+          penalty += PENALTY_N1 + (runLength - 5)
+        }
+        if (i < size) {
+          runColor = getModule(i)
+          runLength = 1
+        }
+      }
+
+      // N3: finder-like 1:1:3:1:1 pattern with four light modules on either side
+      const isDark = (i: number) => i >= 0 && i < size && getModule(i)
+      for (let i = -4; i < size; i++) {
+        const isFinderLike =
+          isDark(i) && !isDark(i + 1) && isDark(i + 2) && isDark(i + 3) && isDark(i + 4) && !isDark(i + 5) && isDark(i + 6)
+        if (!isFinderLike) {
+          continue
+        }
+        const lightBefore = [1, 2, 3, 4].every((k) => !isDark(i - k))
+        const lightAfter = [7, 8, 9, 10].every((k) => !isDark(i + k))
+        if (lightBefore || lightAfter) {
+          penalty += PENALTY_N3
+        }
+      }
+    }
+
+    for (let y = 0; y < size; y++) {
+      scoreLine((x) => modules[y][x])
+    }
+    for (let x = 0; x < size; x++) {
+      scoreLine((y) => modules[y][x])
+    }
+
+    // N2: 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x]
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          penalty += PENALTY_N2
+        }
+      }
+    }
+
+    // N4: deviation of the dark module ratio from 50%, in 5% steps
+    let dark = 0
+    modules.forEach((row) => row.forEach((module) => { if (module) dark++ }))
+    const total = size * size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    penalty += Math.max(0, k) * PENALTY_N4
+
+    return penalty
+  }
+}
+
+/**
+ * Encode text (UTF-8) or bytes as a QR code
+ *
+ * @param data - Text or bytes to encode
+ * @param options - Error correction level
+ * @returns The QR code module matrix
+ * @throws Error if the data is too long for a version 40 QR code
+ */
+export function encodeQRCode(data: string | Uint8Array, options: EncodeQRCodeOptions = {}): QRCode {
+  const { errorCorrectionLevel = 'M' } = options
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+
+  // Find the smallest version that fits the data
+  let version = MIN_VERSION
+  for (; version <= MAX_VERSION; version++) {
+    const requiredBits = 4 + getByteModeCountBits(version) + bytes.length * 8
+    if (requiredBits <= getNumDataCodewords(version, errorCorrectionLevel) * 8) {
+      break
+    }
+  }
+
+  if (version > MAX_VERSION) {
+    throw new Error('Data is too long to fit in a QR code')
+  }
+
+  const codewords = addEccAndInterleave(
+    createDataCodewords(bytes, version, errorCorrectionLevel),
+    version,
+    errorCorrectionLevel
+  )
+
+  const matrix = new QRMatrix(version, errorCorrectionLevel)
+  matrix.drawFunctionPatterns()
+  matrix.drawCodewords(codewords)
+
+  // Pick the mask with the lowest penalty
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(mask)
+    const penalty = matrix.getPenaltyScore()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    matrix.applyMask(mask) // Undo
+  }
+
+  matrix.applyMask(bestMask)
+  matrix.drawFormatBits(bestMask)
+
+  return {
+    version,
+    size: matrix.size,
+    errorCorrectionLevel,
+    modules: matrix.modules
+  }
+}
+
+/**
+ * Build an SVG path that draws every dark module as a 1x1 square
+ * Use with viewBox="0 0 {size + 2 * margin} {size + 2 * margin}"
+ *
+ * @param qrCode - The encoded QR code
+ * @param margin - Quiet zone width in modules (the spec asks for 4)
+ */
+export function getQRCodeSvgPath(qrCode: QRCode, margin: number = 4): string {
+  const parts: string[] = []
+  qrCode.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) {
+        parts.push(`M${x + margin},${y + margin}h1v1h-1z`)
+      }
+    })
+  })
+  return parts.join('')
+}
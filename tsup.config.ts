@@ -1,25 +1,28 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig([
-  // Core package build
+  // Core package and React bindings build
+  // Built together with code splitting so both entries share one copy of the module state
+  // (storage adapter, scope, permissions, close handler); built apart, each entry would have its own
   {
     entry: {
       index: 'src/core/index.ts',
+      react: 'src/react/index.tsx',
     },
     format: ['cjs', 'esm'],
     dts: true,
     sourcemap: true,
     clean: true,
+    splitting: true,
     external: ['react'],
   },
-  // React bindings build
+  // Server helpers build (Node, Bun, edge runtimes)
   {
     entry: {
-      react: 'src/react/index.tsx',
+      server: 'src/server/index.ts',
     },
     format: ['cjs', 'esm'],
     dts: true,
     sourcemap: true,
-    external: ['react'],
   },
 ])